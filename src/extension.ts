@@ -3,8 +3,21 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 type NavigationDirection = 'next' | 'previous';
-type RuleOptionKey = 'matchCase' | 'matchWholeWord' | 'useRegex';
-type RuleScope = 'document' | 'folder' | 'folderRecursive';
+type RuleOptionKey = 'matchCase' | 'matchWholeWord' | 'useRegex' | 'wholeLine';
+type RuleScope = 'document' | 'folder' | 'folderRecursive' | 'workspaceFolder' | 'workspace' | 'global';
+type RuleSource = 'user' | 'settings' | 'projectFile';
+type DecorationStyle =
+	| 'background'
+	| 'foreground'
+	| 'underline'
+	| 'underlineWavy'
+	| 'underlineDotted'
+	| 'outline'
+	| 'bold'
+	| 'italic'
+	| 'strikethrough';
+type GutterIconMode = 'none' | 'alongside' | 'only';
+type ThemeVariant = 'light' | 'dark';
 
 interface CreateRulePayload {
 	documentUri: string;
@@ -15,10 +28,22 @@ interface CreateRulePayload {
 	useRegex: boolean;
 	scope?: RuleScope;
 	fileFilter?: string;
+	style?: DecorationStyle;
+	wholeLine?: boolean;
+}
+
+interface RuleCreationOptions extends Omit<CreateRulePayload, 'documentUri' | 'scope'> {
+	name?: string;
+	enabled?: boolean;
+	gutterIcon?: GutterIconMode;
+	profileId?: string;
+	lightColor?: string;
+	darkColor?: string;
 }
 
 interface HighlightRule {
 	id: string;
+	name?: string;
 	pattern: string;
 	color: string;
 	matchCase: boolean;
@@ -31,6 +56,45 @@ interface HighlightRule {
 	globalMatchIndex: number | null;
 	fileFilter?: string;
 	filterMatchers: RegExp[] | null;
+	source: RuleSource;
+	profileId?: string;
+	enabled: boolean;
+	style: DecorationStyle;
+	wholeLine: boolean;
+	gutterIcon: GutterIconMode;
+	lightColor?: string;
+	darkColor?: string;
+}
+
+interface DocumentHighlightSummary {
+	ruleCount: number;
+	matchCount: number;
+	hidden: boolean;
+}
+
+interface RuleProfile {
+	id: string;
+	name: string;
+	active: boolean;
+}
+
+interface StoredProfileState {
+	profiles: RuleProfile[];
+	currentProfileId: string | null;
+}
+
+interface PanelProfile extends RuleProfile {
+	ruleCount: number;
+}
+
+type ProfileAction = 'activate' | 'deactivate' | 'rename' | 'duplicate' | 'delete';
+
+interface ProfileQuickPickItem extends vscode.QuickPickItem {
+	profile: RuleProfile | null;
+}
+
+interface ProfileActionQuickPickItem extends vscode.QuickPickItem {
+	action: ProfileAction;
 }
 
 interface DocumentRuleStats {
@@ -44,8 +108,16 @@ interface RuleMatchLocation {
 	range: vscode.Range;
 }
 
+interface MatchQuickPickItem extends vscode.QuickPickItem {
+	rule: HighlightRule;
+	location: RuleMatchLocation;
+	globalIndex: number;
+	document: vscode.TextDocument;
+}
+
 interface PanelRule {
 	id: string;
+	name?: string;
 	pattern: string;
 	color: string;
 	matchCase: boolean;
@@ -55,6 +127,15 @@ interface PanelRule {
 	scope: RuleScope;
 	targetUri: string;
 	fileFilter?: string;
+	source: RuleSource;
+	readOnly: boolean;
+	enabled: boolean;
+	style: DecorationStyle;
+	wholeLine: boolean;
+	gutterIcon: GutterIconMode;
+	lightColor: string;
+	darkColor: string;
+	themeColor: string;
 	matchCount: number;
 	currentMatchIndex: number | null;
 	documentMatchCount: number;
@@ -88,7 +169,39 @@ interface ScopeOptionPickItem extends vscode.QuickPickItem {
 	option: ScopeOptionDetails;
 }
 
+type ImportConflictStrategy = 'skip' | 'replace' | 'importAll';
+
+interface ImportPreviewQuickPickItem extends vscode.QuickPickItem {
+	definition: ExportedRuleDefinition;
+	duplicate: HighlightRule | null;
+}
+
+interface ImportStrategyQuickPickItem extends vscode.QuickPickItem {
+	strategy: ImportConflictStrategy;
+}
+
+interface ReportTargetQuickPickItem extends vscode.QuickPickItem {
+	rule: HighlightRule | null;
+}
+
+interface ReportMatch {
+	start: number;
+	end: number;
+	ruleIndex: number;
+}
+
+interface MatchReportEntry {
+	rule: string;
+	pattern: string;
+	file: string;
+	line: number;
+	column: number;
+	match: string;
+	lineText: string;
+}
+
 interface ExportedRuleDefinition {
+	name?: string;
 	pattern: string;
 	color: string;
 	matchCase: boolean;
@@ -96,6 +209,13 @@ interface ExportedRuleDefinition {
 	useRegex: boolean;
 	scope: RuleScope;
 	fileFilter?: string;
+	enabled: boolean;
+	style: DecorationStyle;
+	wholeLine?: boolean;
+	gutterIcon?: GutterIconMode;
+	lightColor?: string;
+	darkColor?: string;
+	profile?: string;
 }
 
 interface ExportedRuleFile {
@@ -103,12 +223,50 @@ interface ExportedRuleFile {
 	rules: ExportedRuleDefinition[];
 }
 
-class HighlightController {
+type ExportMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/** Color rotation shared by the panel form and generated rules, so both pick the same "next" color. */
+const HIGHLIGHT_BASE_COLORS = ['#00c4ff', '#ffd400', '#8ac926', '#ff595e', '#6a4c93', '#1982c4', '#ff924c', '#fb5607'];
+const HIGHLIGHT_DEFAULT_ALPHA = '80';
+
+/** Display names for decoration styles, shared by the quick pick and the panel dropdowns. */
+const DECORATION_STYLE_LABELS: Record<DecorationStyle, string> = {
+	background: 'Background',
+	foreground: 'Text color',
+	underline: 'Underline',
+	underlineWavy: 'Wavy underline',
+	underlineDotted: 'Dotted underline',
+	outline: 'Outline',
+	bold: 'Bold',
+	italic: 'Italic',
+	strikethrough: 'Strikethrough',
+};
+
+interface StoredRuleDefinition extends ExportedRuleDefinition {
+	id: string;
+	targetUri: string;
+	profileId?: string;
+}
+
+type StoredRuleMap = Record<string, StoredRuleDefinition[]>;
+
+interface ConfiguredRuleDefinition extends ExportedRuleDefinition {
+	path?: string;
+}
+
+export class HighlightController {
 	private readonly rulesByScope: RuleMap = new Map();
 	private readonly ruleIndex = new Map<string, HighlightRule>();
 	private readonly documentRuleIds = new Map<string, Set<string>>();
 	private readonly pendingScopeScans = new Map<string, Promise<void>>();
 	private readonly pendingScopeRescanRuleIds = new Set<string>();
+	private pendingWorkspaceFileSearch: Promise<vscode.Uri[]> | undefined;
+	private storedGlobalRulesJson: string | undefined;
+	private readonly projectRuleIdsByFile = new Map<string, Set<string>>();
+	private readonly profiles: RuleProfile[] = [];
+	private currentProfileId: string | null = null;
+	private lastNavigatedRuleId: string | null = null;
+	private highlightsHidden = false;
 	private readonly onDidChangeRulesEmitter = new vscode.EventEmitter<void>();
 	private static readonly defaultWordSeparators = `~!@#$%^&*()-=+[{]}\\|;:'",.<>/?`;
 	private static readonly LOG_PREFIX = '[Smart Highlights]';
@@ -118,11 +276,49 @@ class HighlightController {
 	private static readonly configWordPatternCache = new Map<string, RegExp | null>();
 	private static readonly SCOPE_SCAN_EXCLUDES = ['**/node_modules/**', '**/.git/**', '**/out/**', '**/dist/**', '**/build/**'];
 	private static readonly SCOPE_SCAN_MAX_FILES = 2000;
-	private static readonly EXPORT_SCHEMA_VERSION = 1;
+	private static readonly EXPORT_SCHEMA_VERSION = 2;
+	private static readonly DECORATION_STYLES: readonly DecorationStyle[] = [
+		'background',
+		'foreground',
+		'underline',
+		'underlineWavy',
+		'underlineDotted',
+		'outline',
+		'bold',
+		'italic',
+		'strikethrough',
+	];
+	private static readonly GUTTER_ICON_MODES: readonly GutterIconMode[] = ['none', 'alongside', 'only'];
+	/** Default editor backgrounds used to judge contrast for translucent highlight colors. */
+	private static readonly THEME_BACKGROUNDS: Record<ThemeVariant, { r: number; g: number; b: number }> = {
+		light: { r: 255, g: 255, b: 255 },
+		dark: { r: 30, g: 30, b: 30 },
+	};
+	/** Upgrades an export file from the keyed version to the next one. */
+	private static readonly EXPORT_MIGRATIONS: Record<number, ExportMigration> = {
+		1: (data) => ({
+			...data,
+			version: 2,
+			rules: (data.rules as unknown[]).map((rule) =>
+				rule && typeof rule === 'object' ? { enabled: true, style: 'background', ...rule } : rule
+			),
+		}),
+	};
+	private static readonly RULE_STORAGE_KEY = 'conditionalColoring.rules';
+	private static readonly PROFILE_STORAGE_KEY = 'conditionalColoring.profiles';
+	private static readonly CONFIGURATION_SECTION = 'smartHighlights';
+	private static readonly CONFIGURATION_RULES_KEY = 'rules';
+	private static readonly PROJECT_RULE_FILE_SEGMENTS = ['.vscode', 'smart-highlights.json'];
+	private static readonly WORKSPACE_SCOPE_TARGET = '*';
+	private static readonly GLOBAL_SCOPE_TARGET = '*';
 	private static readonly EXPORT_FILE_FILTERS = {
 		'Smart Highlights Rules': ['json', 'shrules'],
 		JSON: ['json'],
 	};
+	private static readonly IMPORT_FILE_FILTERS = {
+		...HighlightController.EXPORT_FILE_FILTERS,
+		'Word Lists': ['txt'],
+	};
 
 	private static getScopeCreationMessage(scope: RuleScope): string {
 		switch (scope) {
@@ -130,18 +326,48 @@ class HighlightController {
 				return 'Highlight added for this folder.';
 			case 'folderRecursive':
 				return 'Highlight added for this folder and its subfolders.';
+			case 'workspaceFolder':
+				return 'Highlight added for this workspace folder.';
+			case 'workspace':
+				return 'Highlight added for the entire workspace.';
+			case 'global':
+				return 'Highlight added for every file in every window.';
 			case 'document':
 			default:
 				return 'Highlight added to the current file.';
 		}
 	}
 
-	private static describeScope(scope: RuleScope): string {
+	private static getScopeClearedMessage(scope: RuleScope): string {
+		switch (scope) {
+			case 'folder':
+				return 'All highlights cleared for this folder.';
+			case 'folderRecursive':
+				return 'All highlights cleared for this folder and subfolders.';
+			case 'workspaceFolder':
+				return 'All highlights cleared for this workspace folder.';
+			case 'workspace':
+				return 'All highlights cleared for the entire workspace.';
+			case 'global':
+				return 'All global highlights cleared.';
+			case 'document':
+			default:
+				return 'All highlights cleared for this file.';
+		}
+	}
+
+	public static describeScope(scope: RuleScope): string {
 		switch (scope) {
 			case 'folder':
 				return 'Folder only';
 			case 'folderRecursive':
 				return 'Folder + subfolders';
+			case 'workspaceFolder':
+				return 'Workspace folder';
+			case 'workspace':
+				return 'Entire workspace';
+			case 'global':
+				return 'Everywhere';
 			case 'document':
 			default:
 				return 'File only';
@@ -150,6 +376,7 @@ class HighlightController {
 
 	private static serializeRuleDefinition(rule: HighlightRule): ExportedRuleDefinition {
 		return {
+			name: rule.name,
 			pattern: rule.pattern,
 			color: rule.color,
 			matchCase: rule.matchCase,
@@ -157,6 +384,12 @@ class HighlightController {
 			useRegex: rule.useRegex,
 			scope: rule.scope,
 			fileFilter: rule.fileFilter,
+			enabled: rule.enabled,
+			style: rule.style,
+			wholeLine: rule.wholeLine,
+			gutterIcon: rule.gutterIcon,
+			lightColor: rule.lightColor,
+			darkColor: rule.darkColor,
 		};
 	}
 
@@ -168,7 +401,12 @@ class HighlightController {
 		const pattern = typeof value.pattern === 'string' ? value.pattern : null;
 		const color = typeof value.color === 'string' ? value.color : null;
 		const scope =
-			value.scope === 'document' || value.scope === 'folder' || value.scope === 'folderRecursive'
+			value.scope === 'document' ||
+			value.scope === 'folder' ||
+			value.scope === 'folderRecursive' ||
+			value.scope === 'workspaceFolder' ||
+			value.scope === 'workspace' ||
+			value.scope === 'global'
 				? value.scope
 				: null;
 		if (!pattern || !color || !scope) {
@@ -176,7 +414,16 @@ class HighlightController {
 		}
 		const fileFilter =
 			typeof value.fileFilter === 'string' && value.fileFilter.trim().length > 0 ? value.fileFilter : undefined;
+		const name = typeof value.name === 'string' && value.name.trim().length > 0 ? value.name.trim() : undefined;
+		const profile =
+			typeof value.profile === 'string' && value.profile.trim().length > 0 ? value.profile.trim() : undefined;
+		const style = HighlightController.DECORATION_STYLES.find((candidate) => candidate === value.style) ?? 'background';
+		const lightColor =
+			typeof value.lightColor === 'string' && value.lightColor.trim().length > 0 ? value.lightColor.trim() : undefined;
+		const darkColor =
+			typeof value.darkColor === 'string' && value.darkColor.trim().length > 0 ? value.darkColor.trim() : undefined;
 		return {
+			name,
 			pattern,
 			color,
 			scope,
@@ -184,12 +431,110 @@ class HighlightController {
 			matchWholeWord: Boolean(value.matchWholeWord),
 			useRegex: Boolean(value.useRegex),
 			fileFilter,
+			enabled: value.enabled !== false,
+			style,
+			wholeLine: Boolean(value.wholeLine),
+			gutterIcon: HighlightController.GUTTER_ICON_MODES.find((mode) => mode === value.gutterIcon) ?? 'none',
+			lightColor,
+			darkColor,
+			profile,
+		};
+	}
+
+	private static serializeStoredRule(rule: HighlightRule): StoredRuleDefinition {
+		return {
+			...HighlightController.serializeRuleDefinition(rule),
+			id: rule.id,
+			targetUri: rule.targetUri,
+			profileId: rule.scope === 'global' ? undefined : rule.profileId,
 		};
 	}
 
+	private static normalizeStoredRuleDefinition(data: unknown): StoredRuleDefinition | null {
+		const definition = HighlightController.normalizeImportedRuleDefinition(data);
+		if (!definition) {
+			return null;
+		}
+		const value = data as Record<string, unknown>;
+		const id = typeof value.id === 'string' && value.id ? value.id : HighlightController.createId();
+		const targetUri = typeof value.targetUri === 'string' && value.targetUri ? value.targetUri : null;
+		if (!targetUri) {
+			return null;
+		}
+		const profileId = typeof value.profileId === 'string' && value.profileId ? value.profileId : undefined;
+		return { ...definition, id, targetUri, profileId };
+	}
+
+	private static parseExportedRuleFile(raw: string): ExportedRuleFile {
+		const data = JSON.parse(raw);
+		if (
+			!data ||
+			typeof data !== 'object' ||
+			typeof (data as ExportedRuleFile).version !== 'number' ||
+			!Array.isArray((data as ExportedRuleFile).rules)
+		) {
+			throw new Error('File is missing required fields.');
+		}
+		return HighlightController.migrateExportedRuleFile(data as Record<string, unknown>);
+	}
+
+	public static migrateExportedRuleFile(data: Record<string, unknown>): ExportedRuleFile {
+		const latestVersion = HighlightController.EXPORT_SCHEMA_VERSION;
+		let migrated = data;
+		let version = migrated.version as number;
+		if (!Number.isInteger(version) || version < 1) {
+			throw new Error('Unsupported export file version.');
+		}
+		if (version > latestVersion) {
+			throw new Error(
+				`The file uses schema version ${version}, but this version of Smart Highlights only supports up to version ${latestVersion}. Update the extension to import it.`
+			);
+		}
+		while (version < latestVersion) {
+			const migrate = HighlightController.EXPORT_MIGRATIONS[version];
+			if (!migrate) {
+				throw new Error(`No migration is available for export file version ${version}.`);
+			}
+			migrated = migrate(migrated);
+			version = migrated.version as number;
+		}
+		return migrated as unknown as ExportedRuleFile;
+	}
+
+	private static describeRuleSource(source: RuleSource): string {
+		switch (source) {
+			case 'settings':
+				return 'settings';
+			case 'projectFile':
+				return HighlightController.PROJECT_RULE_FILE_SEGMENTS.join('/');
+			case 'user':
+			default:
+				return 'the panel';
+		}
+	}
+
+	private static normalizeConfiguredRuleDefinition(data: unknown): ConfiguredRuleDefinition | null {
+		if (!data || typeof data !== 'object') {
+			return null;
+		}
+		const value = data as Record<string, unknown>;
+		const definition = HighlightController.normalizeImportedRuleDefinition({
+			...value,
+			scope: value.scope ?? 'folderRecursive',
+		});
+		if (!definition || definition.scope === 'workspace' || definition.scope === 'global') {
+			return null;
+		}
+		const rulePath = typeof value.path === 'string' && value.path.trim().length > 0 ? value.path.trim() : undefined;
+		if (definition.scope === 'document' && !rulePath) {
+			return null;
+		}
+		return { ...definition, path: rulePath };
+	}
+
 	public readonly onDidChangeRules = this.onDidChangeRulesEmitter.event;
 
-	constructor(context: vscode.ExtensionContext) {
+	constructor(private readonly context: vscode.ExtensionContext) {
 		context.subscriptions.push(
 			this.onDidChangeRulesEmitter,
 			vscode.workspace.onDidChangeTextDocument((event) => {
@@ -212,8 +557,55 @@ class HighlightController {
 			vscode.workspace.onDidCloseTextDocument((document) => {
 				const uri = document.uri.toString();
 				this.clearDocumentState(uri);
-			})
+				if (document.uri.scheme === 'untitled') {
+					this.removeUntitledDocumentRules(uri);
+				}
+			}),
+			vscode.workspace.onDidChangeConfiguration((event) => {
+				const setting = `${HighlightController.CONFIGURATION_SECTION}.${HighlightController.CONFIGURATION_RULES_KEY}`;
+				if (event.affectsConfiguration(setting)) {
+					this.loadConfiguredRules();
+				}
+			}),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => {
+				this.loadConfiguredRules();
+				void this.loadProjectRuleFiles();
+				for (const rule of this.ruleIndex.values()) {
+					if (rule.scope === 'workspace') {
+						this.scheduleScopeScan(rule);
+					}
+				}
+			}),
+			vscode.window.onDidChangeWindowState((state) => {
+				if (state.focused) {
+					this.syncGlobalRules();
+				}
+			}),
+			// Decorations switch through their light/dark sections; the panel previews need a refresh.
+			vscode.window.onDidChangeActiveColorTheme(() => this.notifyRulesChanged())
+		);
+
+		const projectRuleWatcher = vscode.workspace.createFileSystemWatcher(
+			`**/${HighlightController.PROJECT_RULE_FILE_SEGMENTS.join('/')}`
+		);
+		const reloadProjectRuleFile = (uri: vscode.Uri) => {
+			const folder = vscode.workspace.getWorkspaceFolder(uri);
+			if (folder && HighlightController.areUrisEqual(uri, HighlightController.getProjectRuleFileUri(folder))) {
+				void this.loadProjectRuleFile(folder);
+			}
+		};
+		context.subscriptions.push(
+			projectRuleWatcher,
+			projectRuleWatcher.onDidCreate(reloadProjectRuleFile),
+			projectRuleWatcher.onDidChange(reloadProjectRuleFile),
+			projectRuleWatcher.onDidDelete(reloadProjectRuleFile)
 		);
+
+		this.restoreProfiles();
+		this.restoreRules();
+		this.storedGlobalRulesJson = JSON.stringify(this.collectStoredRules().globalRules);
+		this.loadConfiguredRules();
+		void this.loadProjectRuleFiles();
 	}
 
 	async addHighlightRule() {
@@ -238,18 +630,7 @@ class HighlightController {
 			return;
 		}
 
-		const options = await vscode.window.showQuickPick(
-			[
-				{ label: 'Match Case', picked: false, option: 'matchCase' as const },
-				{ label: 'Match Whole Word', picked: false, option: 'matchWholeWord' as const },
-				{ label: 'Use Regular Expression', picked: false, option: 'useRegex' as const },
-			],
-			{
-				canPickMany: true,
-				placeHolder: 'Select search options (Esc to skip)',
-				ignoreFocusOut: true,
-			}
-		);
+		const options = await this.pickSearchOptions('Select search options (Esc to skip)');
 
 		const color = await vscode.window.showInputBox({
 			prompt: 'Highlight color (CSS color name or #RRGGBB[AA])',
@@ -261,6 +642,8 @@ class HighlightController {
 			return;
 		}
 
+		const style = (await this.pickDecorationStyle()) ?? 'background';
+
 		const scope = await this.pickScopeForNewRule(editor.document);
 		if (!scope) {
 			return;
@@ -271,10 +654,9 @@ class HighlightController {
 			{
 				pattern,
 				color,
-				matchCase: options?.some((option) => option.option === 'matchCase') ?? false,
-				matchWholeWord: options?.some((option) => option.option === 'matchWholeWord') ?? false,
-				useRegex: options?.some((option) => option.option === 'useRegex') ?? false,
+				...options,
 				fileFilter: undefined,
+				style,
 			},
 			scope
 		);
@@ -284,6 +666,116 @@ class HighlightController {
 		}
 	}
 
+	async toggleHighlightAtCursor() {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			void vscode.window.showErrorMessage('Open a text editor before adding highlights.');
+			return;
+		}
+
+		const document = editor.document;
+		const selection = editor.selection;
+		let text: string;
+		let matchWholeWord: boolean;
+		if (!selection.isEmpty) {
+			text = document.getText(selection);
+			matchWholeWord = false;
+		} else {
+			const wordPattern = HighlightController.getLanguageWordPattern(document) ?? undefined;
+			const wordRange = document.getWordRangeAtPosition(selection.active, wordPattern);
+			if (!wordRange) {
+				void vscode.window.showInformationMessage('Place the cursor on a word or select text to highlight.');
+				return;
+			}
+			text = document.getText(wordRange);
+			matchWholeWord = true;
+		}
+
+		const pattern = text.trim();
+		if (!pattern) {
+			void vscode.window.showErrorMessage('Cannot create a highlight from an empty string.');
+			return;
+		}
+
+		// Only match the kind of rule this command creates, so broader scopes are never removed from here.
+		const rules = this.getRulesForUri(document.uri, true);
+		const existing = rules.find(
+			(rule) =>
+				!HighlightController.isReadOnlyRule(rule) &&
+				rule.scope === 'document' &&
+				!rule.useRegex &&
+				rule.matchCase &&
+				rule.matchWholeWord === matchWholeWord &&
+				rule.pattern === pattern
+		);
+		if (existing && !existing.enabled) {
+			this.toggleRuleEnabled(existing.id);
+			vscode.window.setStatusBarMessage(`Re-enabled highlight for "${pattern}".`, 3000);
+			return;
+		}
+		if (existing) {
+			if (this.removeRuleByInstance(existing)) {
+				this.notifyRulesChanged();
+				vscode.window.setStatusBarMessage(`Removed highlight for "${pattern}".`, 3000);
+			}
+			return;
+		}
+
+		const usedColors = this.getUsedRuleColors(document.uri);
+		const createdRule = this.createRuleFromOptions(
+			editor,
+			{
+				pattern,
+				color: HighlightController.pickNextColor(usedColors),
+				matchCase: true,
+				matchWholeWord,
+				useRegex: false,
+				fileFilter: undefined,
+			},
+			'document'
+		);
+		if (createdRule) {
+			vscode.window.setStatusBarMessage(`Highlighted "${pattern}".`, 3000);
+		}
+	}
+
+	private async pickSearchOptions(placeHolder: string): Promise<Record<RuleOptionKey, boolean>> {
+		const options = await vscode.window.showQuickPick(
+			[
+				{ label: 'Match Case', picked: false, option: 'matchCase' as const },
+				{ label: 'Match Whole Word', picked: false, option: 'matchWholeWord' as const },
+				{ label: 'Use Regular Expression', picked: false, option: 'useRegex' as const },
+				{ label: 'Highlight Whole Line', picked: false, option: 'wholeLine' as const },
+			],
+			{
+				canPickMany: true,
+				placeHolder,
+				ignoreFocusOut: true,
+			}
+		);
+		return {
+			matchCase: options?.some((option) => option.option === 'matchCase') ?? false,
+			matchWholeWord: options?.some((option) => option.option === 'matchWholeWord') ?? false,
+			useRegex: options?.some((option) => option.option === 'useRegex') ?? false,
+			wholeLine: options?.some((option) => option.option === 'wholeLine') ?? false,
+		};
+	}
+
+	private async pickDecorationStyle(current: DecorationStyle = 'background'): Promise<DecorationStyle | undefined> {
+		const pick = await vscode.window.showQuickPick(
+			HighlightController.DECORATION_STYLES.map((style) => ({
+				label: DECORATION_STYLE_LABELS[style],
+				description: style === current ? 'Current' : undefined,
+				style,
+			})),
+			{
+				placeHolder: `Select how matches are decorated (Esc to keep ${DECORATION_STYLE_LABELS[current]})`,
+				ignoreFocusOut: true,
+			}
+		);
+		return pick?.style;
+	}
+
 	async removeHighlightRule() {
 		const editor = vscode.window.activeTextEditor;
 		if (!editor) {
@@ -291,7 +783,9 @@ class HighlightController {
 			return;
 		}
 
-		const rules = this.getRulesForDocument(editor.document);
+		const rules = this.getRulesForUri(editor.document.uri, true).filter(
+			(rule) => !HighlightController.isReadOnlyRule(rule)
+		);
 
 		if (!rules || rules.length === 0) {
 			void vscode.window.showInformationMessage('No highlights exist for the current file.');
@@ -301,7 +795,7 @@ class HighlightController {
 		const pick = await vscode.window.showQuickPick(
 			rules.map((rule) => ({
 				label: rule.pattern,
-				description: this.describeRule(rule),
+				description: rule.enabled ? this.describeRule(rule) : `${this.describeRule(rule)} (disabled)`,
 				detail: `${HighlightController.describeScope(rule.scope)} - Color: ${rule.color}`,
 				rule,
 			})),
@@ -336,16 +830,30 @@ class HighlightController {
 
 		const rules = this.rulesByScope.get(scopeOption.key) ?? [];
 		for (const rule of [...rules]) {
-			this.removeRuleByInstance(rule);
+			// Disabled rules are cleared too, but rules of deactivated profiles are hidden and kept.
+			if (!HighlightController.isReadOnlyRule(rule) && this.isProfileActive(rule)) {
+				this.removeRuleByInstance(rule);
+			}
 		}
 		this.notifyRulesChanged();
-		const targetType =
-			scopeOption.scope === 'folderRecursive'
-				? 'folder and subfolders'
-				: scopeOption.scope === 'folder'
-					? 'folder'
-					: 'file';
-		void vscode.window.showInformationMessage(`All highlights cleared for this ${targetType}.`);
+		void vscode.window.showInformationMessage(HighlightController.getScopeClearedMessage(scopeOption.scope));
+	}
+
+	public getNextRuleColor(uri: vscode.Uri): string {
+		return HighlightController.pickNextColor(this.getUsedRuleColors(uri));
+	}
+
+	/** Colors of every rule that applies to `uri`, including disabled rules and rules of inactive profiles. */
+	private getUsedRuleColors(uri: vscode.Uri): Set<string> {
+		const usedColors = new Set<string>();
+		for (const key of this.getScopeKeysForUri(uri)) {
+			for (const rule of this.rulesByScope.get(key) ?? []) {
+				if (this.isFileIncluded(rule, uri)) {
+					usedColors.add(HighlightController.normalizeColorForComparison(rule.color));
+				}
+			}
+		}
+		return usedColors;
 	}
 
 	public getRuleSnapshots(uri?: string | null): PanelRule[] {
@@ -354,12 +862,13 @@ class HighlightController {
 		}
 
 		const targetUri = vscode.Uri.parse(uri);
-		const rules = this.getRulesForUri(targetUri);
+		const rules = this.getRulesForUri(targetUri, true);
 		return rules.map((rule) => {
 			const stats = rule.statsByDocument.get(uri);
 			const totalMatches = this.getTotalMatchCount(rule);
 			return {
 				id: rule.id,
+				name: rule.name,
 				pattern: rule.pattern,
 				color: rule.color,
 				matchCase: rule.matchCase,
@@ -372,6 +881,15 @@ class HighlightController {
 				scope: rule.scope,
 				targetUri: rule.targetUri,
 				fileFilter: rule.fileFilter,
+				source: rule.source,
+				readOnly: HighlightController.isReadOnlyRule(rule),
+				enabled: rule.enabled,
+				style: rule.style,
+				wholeLine: rule.wholeLine,
+				gutterIcon: rule.gutterIcon,
+				lightColor: rule.lightColor ?? rule.color,
+				darkColor: rule.darkColor ?? rule.color,
+				themeColor: HighlightController.getThemeColor(rule, HighlightController.getActiveThemeVariant()),
 				documentUri: uri,
 				description: this.describeRule(rule),
 			};
@@ -379,7 +897,7 @@ class HighlightController {
 	}
 
 	public updateRulePattern(ruleId: string, pattern: string): boolean {
-		const rule = this.ruleIndex.get(ruleId);
+		const rule = this.getEditableRule(ruleId);
 		if (!rule) {
 			return false;
 		}
@@ -401,16 +919,23 @@ class HighlightController {
 		rule.pattern = trimmed;
 		this.scheduleScopeScan(rule);
 		this.refreshEditorsForRule(rule);
+		this.persistRules();
 		this.notifyRulesChanged();
 		return true;
 	}
 
 	public toggleRuleOption(ruleId: string, option: RuleOptionKey) {
-		const rule = this.ruleIndex.get(ruleId);
+		const rule = this.getEditableRule(ruleId);
 		if (!rule) {
 			return;
 		}
 
+		if (option === 'wholeLine') {
+			rule.wholeLine = !rule.wholeLine;
+			this.recreateDecoration(rule);
+			return;
+		}
+
 		const previousValue = rule[option];
 		rule[option] = !rule[option];
 
@@ -427,6 +952,65 @@ class HighlightController {
 
 		this.refreshEditorsForRule(rule);
 		this.scheduleScopeScan(rule);
+		this.persistRules();
+		this.notifyRulesChanged();
+	}
+
+	public get areHighlightsHidden(): boolean {
+		return this.highlightsHidden;
+	}
+
+	public toggleHighlightsHidden() {
+		this.highlightsHidden = !this.highlightsHidden;
+		for (const editor of vscode.window.visibleTextEditors) {
+			this.applyRules(editor);
+		}
+		this.logDebug('Toggled highlight visibility', { hidden: this.highlightsHidden });
+		this.notifyRulesChanged();
+	}
+
+	public getDocumentSummary(document: vscode.TextDocument): DocumentHighlightSummary {
+		const uri = document.uri.toString();
+		const rules = this.getRulesForDocument(document);
+		let matchCount = 0;
+		for (const rule of rules) {
+			matchCount += rule.statsByDocument.get(uri)?.matchCount ?? 0;
+		}
+		return { ruleCount: rules.length, matchCount, hidden: this.highlightsHidden };
+	}
+
+	public getActiveRules(): HighlightRule[] {
+		return [...this.ruleIndex.values()].filter((rule) => this.isRuleActive(rule));
+	}
+
+	public getMatchedLines(document: vscode.TextDocument): Set<number> {
+		const uri = document.uri.toString();
+		const lines = new Set<number>();
+		for (const rule of this.getRulesForDocument(document)) {
+			for (const range of rule.statsByDocument.get(uri)?.ranges ?? []) {
+				for (let line = range.start.line; line <= range.end.line; line += 1) {
+					lines.add(line);
+				}
+			}
+		}
+		return lines;
+	}
+
+	public toggleRuleEnabled(ruleId: string) {
+		const rule = this.getEditableRule(ruleId);
+		if (!rule) {
+			return;
+		}
+
+		rule.enabled = !rule.enabled;
+		if (rule.enabled) {
+			this.scheduleScopeScan(rule);
+		} else {
+			this.clearRuleFromAllDocuments(rule);
+			rule.globalMatchIndex = null;
+		}
+		this.refreshEditorsForRule(rule);
+		this.persistRules();
 		this.notifyRulesChanged();
 	}
 
@@ -454,7 +1038,10 @@ class HighlightController {
 
 		const exportData: ExportedRuleFile = {
 			version: HighlightController.EXPORT_SCHEMA_VERSION,
-			rules: rules.map((rule) => HighlightController.serializeRuleDefinition(rule)),
+			rules: rules.map((rule) => ({
+				...HighlightController.serializeRuleDefinition(rule),
+				profile: rule.profileId ? this.getProfile(rule.profileId)?.name : undefined,
+			})),
 		};
 
 		try {
@@ -468,58 +1055,432 @@ class HighlightController {
 		}
 	}
 
-	public async importRules(documentUri?: string | null) {
-		const targetUriString =
-			documentUri ??
-			vscode.window.activeTextEditor?.document.uri.toString() ??
-			null;
-		if (!targetUriString) {
-			void vscode.window.showErrorMessage('Open a text editor before importing highlight rules.');
+	public async exportHtmlReport() {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			void vscode.window.showErrorMessage('Open a text editor before exporting a highlight report.');
 			return;
 		}
 
-		const pick = await vscode.window.showOpenDialog({
-			canSelectMany: false,
-			openLabel: 'Import Smart Highlights Rules',
-			filters: HighlightController.EXPORT_FILE_FILTERS,
-		});
-		if (!pick || pick.length === 0) {
+		const activeRules = this.getRulesForDocument(editor.document);
+		if (activeRules.length === 0) {
+			void vscode.window.showInformationMessage('No highlights apply to the current file.');
 			return;
 		}
-		const fileUri = pick[0];
 
-		let parsed: ExportedRuleFile | null = null;
-		try {
-			const raw = await fs.promises.readFile(fileUri.fsPath, 'utf8');
-			const data = JSON.parse(raw);
-			if (
-				!data ||
-				typeof data !== 'object' ||
-				typeof (data as ExportedRuleFile).version !== 'number' ||
-				!Array.isArray((data as ExportedRuleFile).rules)
-			) {
-				throw new Error('File is missing required fields.');
+		const scopedRules = activeRules.filter((rule) => rule.scope !== 'document');
+		let uris: vscode.Uri[] = [editor.document.uri];
+		if (scopedRules.length > 0) {
+			const target = await vscode.window.showQuickPick<ReportTargetQuickPickItem>(
+				[
+					{ label: 'Current File', description: path.basename(editor.document.fileName), rule: null },
+					...scopedRules.map((rule) => ({
+						label: `Files in scope of "${rule.name ?? rule.pattern}"`,
+						description: HighlightController.describeScope(rule.scope),
+						rule,
+					})),
+				],
+				{ placeHolder: 'Select what to include in the report', ignoreFocusOut: true }
+			);
+			if (!target) {
+				return;
 			}
-			if ((data as ExportedRuleFile).version !== HighlightController.EXPORT_SCHEMA_VERSION) {
-				throw new Error('Unsupported export file version.');
+			if (target.rule) {
+				const scopeRule = target.rule;
+				const scopeUris = await this.collectUrisForRuleScope(scopeRule);
+				uris = scopeUris.filter((uri) => this.isFileIncluded(scopeRule, uri));
 			}
-			parsed = data as ExportedRuleFile;
-		} catch (error) {
-			const message = error instanceof Error ? error.message : String(error);
-			void vscode.window.showErrorMessage(`Failed to import highlight rules: ${message}`);
+		}
+
+		const mode = await vscode.window.showQuickPick(
+			[
+				{ label: 'Entire Documents', contextOnly: false },
+				{ label: 'Matching Lines Only', description: 'With surrounding context lines', contextOnly: true },
+			],
+			{ placeHolder: 'Select which lines to include', ignoreFocusOut: true }
+		);
+		if (!mode) {
 			return;
 		}
 
-		const normalizedRules: ExportedRuleDefinition[] = [];
-		for (const rule of parsed.rules) {
-			const normalized = HighlightController.normalizeImportedRuleDefinition(rule);
-			if (normalized) {
-				normalizedRules.push(normalized);
+		let contextLines: number | null = null;
+		if (mode.contextOnly) {
+			const value = await vscode.window.showInputBox({
+				prompt: 'Number of context lines around each match',
+				value: '2',
+				ignoreFocusOut: true,
+				validateInput: (input) => (/^\d+$/.test(input.trim()) ? undefined : 'Enter a non-negative whole number.'),
+			});
+			if (value === undefined) {
+				return;
 			}
+			contextLines = Number.parseInt(value.trim(), 10);
 		}
 
-		if (normalizedRules.length === 0) {
-			void vscode.window.showErrorMessage('No valid highlight rules were found in the selected file.');
+		const baseName = path.basename(editor.document.fileName, path.extname(editor.document.fileName)) || 'highlights';
+		const defaultFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri)?.uri;
+		const saveUri = await vscode.window.showSaveDialog({
+			saveLabel: 'Export Highlight Report',
+			filters: { HTML: ['html', 'htm'] },
+			defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, `${baseName}-highlights.html`) : undefined,
+		});
+		if (!saveUri) {
+			return;
+		}
+
+		const reportRules: HighlightRule[] = [];
+		const matchCounts = new Map<string, number>();
+		const sections: string[] = [];
+		const completed = await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: 'Exporting highlight report', cancellable: true },
+			async (progress, token) => {
+				for (const uri of uris) {
+					if (token.isCancellationRequested) {
+						return false;
+					}
+					progress.report({ message: path.basename(uri.fsPath), increment: 100 / uris.length });
+					let document: vscode.TextDocument;
+					try {
+						document = await vscode.workspace.openTextDocument(uri);
+					} catch (error) {
+						this.logDebug('Skipped file in HTML report', {
+							file: uri.toString(),
+							error: error instanceof Error ? error.message : String(error),
+						});
+						continue;
+					}
+					const rules = this.getRulesForDocument(document);
+					for (const rule of rules) {
+						if (!reportRules.includes(rule)) {
+							reportRules.push(rule);
+						}
+					}
+					const section = this.renderReportSection(document, rules, reportRules, matchCounts, contextLines);
+					if (section) {
+						sections.push(section);
+					}
+				}
+				return true;
+			}
+		);
+		if (!completed) {
+			void vscode.window.showInformationMessage('Highlight report export was cancelled.');
+			return;
+		}
+
+		const html = HighlightController.renderReportHtml(
+			path.basename(saveUri.fsPath),
+			reportRules,
+			matchCounts,
+			sections
+		);
+		try {
+			await fs.promises.writeFile(saveUri.fsPath, html, 'utf8');
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			void vscode.window.showErrorMessage(`Failed to export highlight report: ${message}`);
+			return;
+		}
+
+		const openLabel = 'Open Report';
+		const choice = await vscode.window.showInformationMessage(
+			`Exported highlight report for ${sections.length} ${sections.length === 1 ? 'file' : 'files'} to ${saveUri.fsPath}.`,
+			openLabel
+		);
+		if (choice === openLabel) {
+			void vscode.env.openExternal(saveUri);
+		}
+	}
+
+	private renderReportSection(
+		document: vscode.TextDocument,
+		rules: HighlightRule[],
+		reportRules: HighlightRule[],
+		matchCounts: Map<string, number>,
+		contextLines: number | null
+	): string | null {
+		const matches: ReportMatch[] = [];
+		for (const rule of rules) {
+			const ranges = this.findMatches(document, rule);
+			matchCounts.set(rule.id, (matchCounts.get(rule.id) ?? 0) + ranges.length);
+			const ruleIndex = reportRules.indexOf(rule);
+			for (const range of ranges) {
+				matches.push({ start: document.offsetAt(range.start), end: document.offsetAt(range.end), ruleIndex });
+			}
+		}
+
+		// Earlier starts win; where two rules overlap, the rule listed first keeps the overlapping text.
+		matches.sort((a, b) => a.start - b.start || a.ruleIndex - b.ruleIndex);
+		const segments: ReportMatch[] = [];
+		let cursor = 0;
+		for (const match of matches) {
+			const start = Math.max(match.start, cursor);
+			if (start >= match.end) {
+				continue;
+			}
+			segments.push({ ...match, start });
+			cursor = match.end;
+		}
+
+		const matchedLines = new Set<number>();
+		for (const segment of segments) {
+			const startLine = document.positionAt(segment.start).line;
+			const endLine = document.positionAt(segment.end).line;
+			for (let line = startLine; line <= endLine; line += 1) {
+				matchedLines.add(line);
+			}
+		}
+		if (contextLines !== null && matchedLines.size === 0) {
+			return null;
+		}
+
+		const includedLines = new Set<number>();
+		if (contextLines === null) {
+			for (let line = 0; line < document.lineCount; line += 1) {
+				includedLines.add(line);
+			}
+		} else {
+			for (const line of matchedLines) {
+				const first = Math.max(0, line - contextLines);
+				const last = Math.min(document.lineCount - 1, line + contextLines);
+				for (let candidate = first; candidate <= last; candidate += 1) {
+					includedLines.add(candidate);
+				}
+			}
+		}
+
+		const text = document.getText();
+		const rows: string[] = [];
+		let segmentIndex = 0;
+		let previousLine = -1;
+		for (let line = 0; line < document.lineCount; line += 1) {
+			if (!includedLines.has(line)) {
+				continue;
+			}
+			if (previousLine !== -1 && line !== previousLine + 1) {
+				rows.push('<tr class="gap"><td class="ln">&hellip;</td><td></td></tr>');
+			}
+			previousLine = line;
+
+			const lineRange = document.lineAt(line).range;
+			const lineStart = document.offsetAt(lineRange.start);
+			const lineEnd = document.offsetAt(lineRange.end);
+			while (segmentIndex < segments.length && segments[segmentIndex].end <= lineStart) {
+				segmentIndex += 1;
+			}
+
+			let html = '';
+			let position = lineStart;
+			for (let i = segmentIndex; i < segments.length && segments[i].start < lineEnd; i += 1) {
+				const segment = segments[i];
+				const start = Math.max(segment.start, lineStart);
+				const end = Math.min(segment.end, lineEnd);
+				if (start > position) {
+					html += HighlightController.escapeHtml(text.slice(position, start));
+				}
+				if (end > start) {
+					html += `<span class="r${segment.ruleIndex}">${HighlightController.escapeHtml(text.slice(start, end))}</span>`;
+				}
+				position = Math.max(position, end);
+			}
+			html += HighlightController.escapeHtml(text.slice(position, lineEnd));
+			const rowClass = matchedLines.has(line) ? ' class="hit"' : '';
+			rows.push(`<tr${rowClass}><td class="ln">${line + 1}</td><td class="code">${html}</td></tr>`);
+		}
+
+		const label = HighlightController.escapeHtml(vscode.workspace.asRelativePath(document.uri));
+		return `<section><h2>${label}</h2><table>${rows.join('\n')}</table></section>`;
+	}
+
+	private static renderReportHtml(
+		title: string,
+		rules: HighlightRule[],
+		matchCounts: Map<string, number>,
+		sections: string[]
+	): string {
+		const ruleStyles = rules
+			.map((rule, index) => {
+				// The report page is light, so rules with a separate light-theme color use it.
+				const ruleColor = rule.lightColor ?? rule.color;
+				const color = HighlightController.sanitizeCssValue(ruleColor);
+				const textColor = HighlightController.getReadableTextColor(ruleColor, 'light') ?? 'inherit';
+				return `.r${index} { background: ${color}; color: ${textColor}; border-radius: 2px; }`;
+			})
+			.join('\n');
+		const legendRows = rules
+			.map((rule, index) => {
+				const count = matchCounts.get(rule.id) ?? 0;
+				const name = rule.name ? `${HighlightController.escapeHtml(rule.name)}<br>` : '';
+				return `<tr><td><span class="r${index}">${HighlightController.escapeHtml(rule.pattern)}</span></td><td>${name}${HighlightController.escapeHtml(HighlightController.describeScope(rule.scope))}</td><td class="count">${count}</td></tr>`;
+			})
+			.join('\n');
+		const body = sections.length > 0 ? sections.join('\n') : '<p>No matching lines were found.</p>';
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${HighlightController.escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 24px; color: #1f1f1f; background: #ffffff; }
+h1 { font-size: 18px; }
+h2 { font-size: 14px; margin: 24px 0 8px; }
+table { border-collapse: collapse; }
+.legend td { padding: 4px 10px; border-bottom: 1px solid #e0e0e0; vertical-align: top; }
+.legend .count { text-align: right; font-variant-numeric: tabular-nums; }
+section table { width: 100%; font-family: Consolas, 'Courier New', monospace; font-size: 12px; }
+section td { padding: 0 8px; white-space: pre-wrap; word-break: break-all; vertical-align: top; }
+.ln { color: #8a8a8a; text-align: right; user-select: none; width: 1%; white-space: nowrap; }
+.hit .ln { color: #1f1f1f; font-weight: 600; }
+.gap td { color: #8a8a8a; padding: 4px 8px; }
+${ruleStyles}
+</style>
+</head>
+<body>
+<h1>Smart Highlights Report</h1>
+<p>Generated ${HighlightController.escapeHtml(new Date().toLocaleString())}</p>
+<table class="legend">
+<tr><th>Rule</th><th>Scope</th><th>Matches</th></tr>
+${legendRows}
+</table>
+${body}
+</body>
+</html>
+`;
+	}
+
+	private static escapeHtml(value: string): string {
+		return value
+			.replace(/&/g, '&amp;')
+			.replace(/</g, '&lt;')
+			.replace(/>/g, '&gt;')
+			.replace(/"/g, '&quot;')
+			.replace(/'/g, '&#39;');
+	}
+
+	private static sanitizeCssValue(value: string): string {
+		return value.replace(/[;{}<>"'\\]/g, '');
+	}
+
+	public async exportMatchReport() {
+		const rules = [...this.ruleIndex.values()].filter((rule) => this.isRuleActive(rule));
+		if (rules.length === 0) {
+			void vscode.window.showInformationMessage('There are no highlight rules to report on.');
+			return;
+		}
+
+		const activeDocument = vscode.window.activeTextEditor?.document;
+		const activeRuleIds = new Set(activeDocument ? this.getRulesForDocument(activeDocument).map((rule) => rule.id) : []);
+		const picks = await vscode.window.showQuickPick(
+			rules.map((rule) => ({
+				label: rule.name ?? rule.pattern,
+				description: `${HighlightController.describeScope(rule.scope)} - ${this.describeRule(rule)}`,
+				picked: activeRuleIds.size === 0 || activeRuleIds.has(rule.id),
+				rule,
+			})),
+			{ canPickMany: true, placeHolder: 'Select the rules whose matches should be exported', ignoreFocusOut: true }
+		);
+		if (!picks || picks.length === 0) {
+			return;
+		}
+
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		const saveUri = await vscode.window.showSaveDialog({
+			saveLabel: 'Export Match Report',
+			filters: { CSV: ['csv'], JSON: ['json'] },
+			defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, 'smart-highlights-matches.csv') : undefined,
+		});
+		if (!saveUri) {
+			return;
+		}
+
+		const entries: MatchReportEntry[] = [];
+		const documents = new Map<string, vscode.TextDocument | null>();
+		for (const { rule } of picks) {
+			await this.ensureScopeScan(rule);
+			for (const match of this.getOrderedMatches(rule)) {
+				if (!documents.has(match.uri)) {
+					try {
+						documents.set(match.uri, await vscode.workspace.openTextDocument(vscode.Uri.parse(match.uri)));
+					} catch {
+						documents.set(match.uri, null);
+					}
+				}
+				const document = documents.get(match.uri);
+				if (!document || match.range.start.line >= document.lineCount) {
+					continue;
+				}
+				entries.push({
+					rule: rule.name ?? rule.pattern,
+					pattern: rule.pattern,
+					file: document.uri.scheme === 'file' ? document.uri.fsPath : document.uri.toString(),
+					line: match.range.start.line + 1,
+					column: match.range.start.character + 1,
+					match: document.getText(match.range),
+					lineText: document.lineAt(match.range.start.line).text,
+				});
+			}
+		}
+
+		const isJson = path.extname(saveUri.fsPath).toLowerCase() === '.json';
+		const content = isJson
+			? JSON.stringify({ generatedAt: new Date().toISOString(), matches: entries }, null, 2)
+			: HighlightController.formatMatchReportCsv(entries);
+		try {
+			await fs.promises.writeFile(saveUri.fsPath, content, 'utf8');
+			void vscode.window.showInformationMessage(
+				`Exported ${entries.length} ${entries.length === 1 ? 'match' : 'matches'} to ${saveUri.fsPath}.`
+			);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			void vscode.window.showErrorMessage(`Failed to export match report: ${message}`);
+		}
+	}
+
+	public static formatMatchReportCsv(entries: MatchReportEntry[]): string {
+		const escape = (value: string | number) => {
+			const text = String(value);
+			return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+		};
+		const header = ['rule', 'pattern', 'file', 'line', 'column', 'match', 'lineText'];
+		const rows = entries.map((entry) =>
+			[entry.rule, entry.pattern, entry.file, entry.line, entry.column, entry.match, entry.lineText]
+				.map(escape)
+				.join(',')
+		);
+		return [header.join(','), ...rows].join('\r\n') + '\r\n';
+	}
+
+	public async importRules(documentUri?: string | null) {
+		const targetUriString =
+			documentUri ??
+			vscode.window.activeTextEditor?.document.uri.toString() ??
+			null;
+		if (!targetUriString) {
+			void vscode.window.showErrorMessage('Open a text editor before importing highlight rules.');
+			return;
+		}
+
+		const pick = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			openLabel: 'Import Smart Highlights Rules',
+			filters: HighlightController.IMPORT_FILE_FILTERS,
+		});
+		if (!pick || pick.length === 0) {
+			return;
+		}
+		const fileUri = pick[0];
+		const isWordList = path.extname(fileUri.fsPath).toLowerCase() === '.txt';
+
+		let raw: string;
+		let parsed: ExportedRuleFile | null = null;
+		try {
+			raw = await fs.promises.readFile(fileUri.fsPath, 'utf8');
+			if (!isWordList) {
+				parsed = HighlightController.parseExportedRuleFile(raw);
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			void vscode.window.showErrorMessage(`Failed to import highlight rules: ${message}`);
 			return;
 		}
 
@@ -527,40 +1488,252 @@ class HighlightController {
 		const document =
 			vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === targetUriString) ??
 			(await vscode.workspace.openTextDocument(targetUri));
+
+		const normalizedRules: ExportedRuleDefinition[] = [];
+		let repeatedCount = 0;
+		if (parsed) {
+			const seenKeys = new Set<string>();
+			for (const rule of parsed.rules) {
+				const normalized = HighlightController.normalizeImportedRuleDefinition(rule);
+				if (!normalized) {
+					continue;
+				}
+				// Entries repeated within the file would otherwise be imported once per copy.
+				const key = JSON.stringify([
+					normalized.scope,
+					normalized.pattern.trim(),
+					normalized.matchCase,
+					normalized.matchWholeWord,
+					normalized.useRegex,
+					HighlightController.normalizeFileFilter(normalized.fileFilter),
+				]);
+				if (seenKeys.has(key)) {
+					repeatedCount += 1;
+					continue;
+				}
+				seenKeys.add(key);
+				normalizedRules.push(normalized);
+			}
+		} else {
+			const wordListRules = await this.createWordListDefinitions(raw, document);
+			if (!wordListRules) {
+				return;
+			}
+			normalizedRules.push(...wordListRules);
+		}
+
+		if (normalizedRules.length === 0) {
+			void vscode.window.showErrorMessage('No valid highlight rules were found in the selected file.');
+			return;
+		}
+
+		const previewItems = normalizedRules.map<ImportPreviewQuickPickItem>((definition) => {
+			const duplicate = this.findDuplicateRule(document, definition);
+			const details = [HighlightController.describeScope(definition.scope), `Color: ${definition.color}`];
+			if (definition.name) {
+				details.unshift(definition.name);
+			}
+			return {
+				label: definition.pattern,
+				description: duplicate
+					? `$(warning) Duplicates an existing ${HighlightController.isReadOnlyRule(duplicate) ? 'read-only ' : ''}rule`
+					: undefined,
+				detail: details.join(' - '),
+				picked: true,
+				definition,
+				duplicate,
+			};
+		});
+		const duplicateCount = previewItems.filter((item) => item.duplicate).length;
+		const selectedItems = await vscode.window.showQuickPick(previewItems, {
+			canPickMany: true,
+			placeHolder:
+				duplicateCount > 0
+					? `${normalizedRules.length} rules found, ${duplicateCount} already exist. Select the rules to import`
+					: `${normalizedRules.length} rules found. Select the rules to import`,
+			ignoreFocusOut: true,
+		});
+		if (!selectedItems || selectedItems.length === 0) {
+			return;
+		}
+
+		let strategy: ImportConflictStrategy = 'importAll';
+		if (selectedItems.some((item) => item.duplicate)) {
+			const strategyPick = await vscode.window.showQuickPick<ImportStrategyQuickPickItem>(
+				[
+					{
+						label: 'Skip Duplicates',
+						description: 'Keep existing rules and only add new ones',
+						strategy: 'skip',
+					},
+					{
+						label: 'Replace Existing',
+						description: 'Remove matching rules and add the imported versions',
+						strategy: 'replace',
+					},
+					{
+						label: 'Import All',
+						description: 'Add every selected rule, even if it duplicates an existing one',
+						strategy: 'importAll',
+					},
+				],
+				{
+					placeHolder: 'Some selected rules duplicate existing rules. How should they be handled?',
+					ignoreFocusOut: true,
+				}
+			);
+			if (!strategyPick) {
+				return;
+			}
+			strategy = strategyPick.strategy;
+		}
+
 		const editor =
 			vscode.window.visibleTextEditors.find((e) => e.document.uri.toString() === targetUriString) ??
 			(await vscode.window.showTextDocument(document));
 
-		let createdCount = 0;
-		for (const rule of normalizedRules) {
+		let addedCount = 0;
+		let replacedCount = 0;
+		let skippedCount = normalizedRules.length - selectedItems.length + repeatedCount;
+		const existingRuleIds = new Set(this.ruleIndex.keys());
+		for (const { definition } of selectedItems) {
+			const match = strategy === 'importAll' ? null : this.findDuplicateRule(document, definition);
+			const duplicate = match && existingRuleIds.has(match.id) ? match : null;
+			if (duplicate) {
+				if (strategy === 'skip' || HighlightController.isReadOnlyRule(duplicate)) {
+					skippedCount += 1;
+					continue;
+				}
+				this.removeRuleByInstance(duplicate);
+			}
+
 			const createdRule = this.createRuleFromOptions(
 				editor,
 				{
-					pattern: rule.pattern,
-					color: rule.color,
-					matchCase: rule.matchCase,
-					matchWholeWord: rule.matchWholeWord,
-					useRegex: rule.useRegex,
-					fileFilter: rule.fileFilter,
+					name: definition.name,
+					pattern: definition.pattern,
+					color: definition.color,
+					matchCase: definition.matchCase,
+					matchWholeWord: definition.matchWholeWord,
+					useRegex: definition.useRegex,
+					fileFilter: definition.fileFilter,
+					enabled: definition.enabled,
+					style: definition.style,
+					wholeLine: definition.wholeLine,
+					gutterIcon: definition.gutterIcon,
+					lightColor: definition.lightColor,
+					darkColor: definition.darkColor,
+					profileId: definition.profile ? this.getOrCreateProfileByName(definition.profile).id : undefined,
 				},
-				rule.scope
+				definition.scope
 			);
-			if (createdRule) {
-				createdCount += 1;
+			if (!createdRule) {
+				skippedCount += 1;
+			} else if (duplicate) {
+				replacedCount += 1;
+			} else {
+				addedCount += 1;
 			}
 		}
 
-		if (createdCount === 0) {
-			void vscode.window.showInformationMessage('No new highlight rules were added.');
+		this.notifyRulesChanged();
+		if (addedCount === 0 && replacedCount === 0) {
+			void vscode.window.showInformationMessage(
+				`No new highlight rules were added (${skippedCount} skipped).`
+			);
 			return;
 		}
 		void vscode.window.showInformationMessage(
-			`Imported ${createdCount} highlight ${createdCount === 1 ? 'rule' : 'rules'}.`
+			`Imported highlight rules: ${addedCount} added, ${replacedCount} replaced, ${skippedCount} skipped.`
+		);
+	}
+
+	private async createWordListDefinitions(
+		raw: string,
+		document: vscode.TextDocument
+	): Promise<ExportedRuleDefinition[] | undefined> {
+		const patterns = HighlightController.parseWordList(raw);
+		if (patterns.length === 0) {
+			return [];
+		}
+
+		const options = await this.pickSearchOptions(
+			`Select search options for all ${patterns.length} entries (Esc to skip)`
+		);
+		const scope = await this.pickScopeForNewRule(document);
+		if (!scope) {
+			return undefined;
+		}
+
+		const invalidPatterns: string[] = [];
+		const validPatterns = patterns.filter((pattern) => {
+			if (!options.useRegex) {
+				return true;
+			}
+			try {
+				new RegExp(pattern);
+				return true;
+			} catch {
+				invalidPatterns.push(pattern);
+				return false;
+			}
+		});
+		if (invalidPatterns.length > 0) {
+			void vscode.window.showWarningMessage(
+				`Skipped ${invalidPatterns.length} invalid regular ${invalidPatterns.length === 1 ? 'expression' : 'expressions'}: ${invalidPatterns.join(', ')}`
+			);
+		}
+
+		const usedColors = this.getUsedRuleColors(document.uri);
+		return validPatterns.map((pattern) => {
+			const color = HighlightController.pickNextColor(usedColors);
+			usedColors.add(HighlightController.normalizeColorForComparison(color));
+			return {
+				pattern,
+				color,
+				...options,
+				scope,
+				enabled: true,
+				style: 'background',
+			};
+		});
+	}
+
+	public static parseWordList(raw: string): string[] {
+		const seen = new Set<string>();
+		const patterns: string[] = [];
+		for (const line of raw.split(/\r?\n/)) {
+			const trimmed = line.trim();
+			if (!trimmed || trimmed.startsWith('#') || seen.has(trimmed)) {
+				continue;
+			}
+			seen.add(trimmed);
+			patterns.push(trimmed);
+		}
+		return patterns;
+	}
+
+	private findDuplicateRule(
+		document: vscode.TextDocument,
+		definition: ExportedRuleDefinition
+	): HighlightRule | null {
+		const scopeInfo = this.resolveScopeForDocument(document, definition.scope);
+		const fileFilter = HighlightController.normalizeFileFilter(definition.fileFilter);
+		const rules = this.rulesByScope.get(scopeInfo.key) ?? [];
+		return (
+			rules.find(
+				(rule) =>
+					rule.pattern === definition.pattern.trim() &&
+					rule.matchCase === definition.matchCase &&
+					rule.matchWholeWord === definition.matchWholeWord &&
+					rule.useRegex === definition.useRegex &&
+					rule.fileFilter === fileFilter
+			) ?? null
 		);
 	}
 
 	public async changeRuleScope(ruleId: string, scope: RuleScope, documentUri: string): Promise<boolean> {
-		const rule = this.ruleIndex.get(ruleId);
+		const rule = this.getEditableRule(ruleId);
 		if (!rule) {
 			return false;
 		}
@@ -580,6 +1753,7 @@ class HighlightController {
 			this.clearRuleFromAllDocuments(rule);
 			this.scheduleScopeScan(rule);
 			this.refreshEditorsForScope(rule.scope, rule.targetUri);
+			this.persistRules();
 			this.notifyRulesChanged();
 			return true;
 		} catch (error) {
@@ -589,27 +1763,65 @@ class HighlightController {
 		}
 	}
 
-	public updateRuleColor(ruleId: string, color: string): boolean {
-		const rule = this.ruleIndex.get(ruleId);
+	public updateRuleColor(ruleId: string, darkColor: string, lightColor?: string): boolean {
+		const rule = this.getEditableRule(ruleId);
 		if (!rule) {
 			return false;
 		}
 
-		const trimmed = color.trim();
-		if (!trimmed) {
+		const trimmedDark = darkColor.trim();
+		if (!trimmedDark) {
 			void vscode.window.showErrorMessage('Color cannot be empty.');
 			return false;
 		}
 
+		// One color for both themes replaces the base color; otherwise the base color is kept
+		// and each theme gets an override only where it differs from it.
+		const trimmedLight = lightColor?.trim() || trimmedDark;
+		const sameColor = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+		if (sameColor(trimmedDark, trimmedLight)) {
+			rule.color = trimmedDark;
+		}
+		rule.darkColor = sameColor(trimmedDark, rule.color) ? undefined : trimmedDark;
+		rule.lightColor = sameColor(trimmedLight, rule.color) ? undefined : trimmedLight;
+		this.recreateDecoration(rule);
+		return true;
+	}
+
+	public updateRuleStyle(ruleId: string, style: DecorationStyle): boolean {
+		const rule = this.getEditableRule(ruleId);
+		if (!rule || !HighlightController.DECORATION_STYLES.includes(style)) {
+			return false;
+		}
+
+		rule.style = style;
+		this.recreateDecoration(rule);
+		return true;
+	}
+
+	public updateRuleGutterIcon(ruleId: string, mode: GutterIconMode): boolean {
+		const rule = this.getEditableRule(ruleId);
+		if (!rule || !HighlightController.GUTTER_ICON_MODES.includes(mode)) {
+			return false;
+		}
+
+		rule.gutterIcon = mode;
+		this.recreateDecoration(rule);
+		return true;
+	}
+
+	private recreateDecoration(rule: HighlightRule) {
 		rule.decoration.dispose();
-		rule.color = trimmed;
-		rule.decoration = HighlightController.createDecoration(trimmed);
+		rule.decoration = HighlightController.createDecoration(rule);
 		this.refreshEditorsForRule(rule);
+		this.persistRules();
 		this.notifyRulesChanged();
-		return true;
 	}
 
 	public deleteRule(ruleId: string): boolean {
+		if (!this.getEditableRule(ruleId)) {
+			return false;
+		}
 		const removed = this.removeRuleById(ruleId);
 		if (removed) {
 			this.notifyRulesChanged();
@@ -617,175 +1829,1361 @@ class HighlightController {
 		return removed;
 	}
 
-	public async navigateToMatch(uri: string, ruleId: string, direction: NavigationDirection) {
-		const rule = this.ruleIndex.get(ruleId);
-		if (!rule) {
+	public async navigateWithPicker(direction: NavigationDirection) {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			void vscode.window.showErrorMessage('No active editor found.');
+			return;
+		}
+
+		const rules = this.getRulesForDocument(editor.document);
+		if (rules.length === 0) {
+			void vscode.window.showInformationMessage('No highlights exist for the current file.');
+			return;
+		}
+
+		const rule = await this.pickRule(
+			rules,
+			direction === 'next' ? 'Go to the next match of...' : 'Go to the previous match of...'
+		);
+		if (!rule) {
+			return;
+		}
+
+		await this.navigateToMatch(editor.document.uri.toString(), rule.id, direction);
+	}
+
+	public async selectAllMatches(ruleId?: string, documentUri?: string) {
+		const editor = documentUri
+			? await this.findEditorForDocument(documentUri)
+			: vscode.window.activeTextEditor;
+		if (!editor) {
+			void vscode.window.showErrorMessage('No active editor found.');
+			return;
+		}
+
+		let rule = ruleId ? this.ruleIndex.get(ruleId) : undefined;
+		if (!rule) {
+			const rules = this.getRulesForDocument(editor.document);
+			if (rules.length === 0) {
+				void vscode.window.showInformationMessage('No highlights exist for the current file.');
+				return;
+			}
+			rule = await this.pickRule(rules, 'Select all matches of...');
+		}
+		if (!rule) {
+			return;
+		}
+
+		this.applyRules(editor);
+		const ranges = rule.statsByDocument.get(editor.document.uri.toString())?.ranges ?? [];
+		if (ranges.length === 0) {
+			void vscode.window.showInformationMessage(`No matches were found for "${rule.pattern}" in this file.`);
+			return;
+		}
+
+		editor.selections = ranges.map((range) => new vscode.Selection(range.start, range.end));
+		editor.revealRange(ranges[0], vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+		await vscode.window.showTextDocument(editor.document, { viewColumn: editor.viewColumn, preview: false });
+		this.logDebug('Selected all matches', { ruleId: rule.id, count: ranges.length });
+	}
+
+	public async replaceMatches(ruleId?: string, documentUri?: string) {
+		const activeEditor = vscode.window.activeTextEditor;
+		let rule = ruleId ? this.ruleIndex.get(ruleId) : undefined;
+		if (!rule) {
+			if (!activeEditor) {
+				void vscode.window.showErrorMessage('No active editor found.');
+				return;
+			}
+			const rules = this.getRulesForDocument(activeEditor.document);
+			if (rules.length === 0) {
+				void vscode.window.showInformationMessage('No highlights exist for the current file.');
+				return;
+			}
+			rule = await this.pickRule(rules, 'Replace matches of...');
+		}
+		if (!rule) {
+			return;
+		}
+
+		const currentUri = documentUri ?? activeEditor?.document.uri.toString();
+		let uris: string[] = currentUri ? [currentUri] : [];
+		if (rule.scope !== 'document') {
+			const target = await vscode.window.showQuickPick(
+				[
+					{ label: 'Current File', wholeScope: false },
+					{ label: HighlightController.describeScope(rule.scope), description: 'Every file in the rule scope', wholeScope: true },
+				].filter((item) => item.wholeScope || currentUri),
+				{ placeHolder: 'Where should the matches be replaced?' }
+			);
+			if (!target) {
+				return;
+			}
+			if (target.wholeScope) {
+				await this.ensureScopeScan(rule);
+				uris = [...rule.statsByDocument.keys()];
+			}
+		}
+		if (uris.length === 0) {
+			void vscode.window.showInformationMessage(`No matches were found for "${rule.pattern}".`);
+			return;
+		}
+
+		const replacement = await vscode.window.showInputBox({
+			prompt: rule.useRegex
+				? `Replace matches of "${rule.pattern}". Use $1 or $<name> to insert capture groups and $$ for a literal $.`
+				: `Replace matches of "${rule.pattern}".`,
+			placeHolder: 'Replacement text',
+		});
+		if (replacement === undefined) {
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		let replacedCount = 0;
+		let fileCount = 0;
+		const pendingReplacements: { uri: vscode.Uri; range: vscode.Range; text: string }[] = [];
+		for (const uri of uris) {
+			let document: vscode.TextDocument;
+			try {
+				document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+			} catch (error) {
+				this.logDebug('Failed to open document for replacement', {
+					uri,
+					error: error instanceof Error ? error.message : String(error),
+				});
+				continue;
+			}
+			const results = this.findMatchResults(document, rule);
+			if (results.length === 0) {
+				continue;
+			}
+			fileCount += 1;
+			for (const { range, match } of results) {
+				const text = rule.useRegex ? HighlightController.expandReplacement(replacement, match) : replacement;
+				pendingReplacements.push({ uri: document.uri, range, text });
+				replacedCount += 1;
+			}
+		}
+		if (replacedCount === 0) {
+			void vscode.window.showInformationMessage(`No matches were found for "${rule.pattern}".`);
+			return;
+		}
+
+		const summary = `Replace ${replacedCount} ${replacedCount === 1 ? 'match' : 'matches'} of "${rule.pattern}" in ${fileCount} ${fileCount === 1 ? 'file' : 'files'}?`;
+		const choice = await vscode.window.showWarningMessage(summary, { modal: true }, 'Replace', 'Preview');
+		if (!choice) {
+			return;
+		}
+
+		const metadata: vscode.WorkspaceEditEntryMetadata = {
+			label: `Replace "${rule.pattern}"`,
+			needsConfirmation: choice === 'Preview',
+		};
+		for (const pending of pendingReplacements) {
+			edit.replace(pending.uri, pending.range, pending.text, metadata);
+		}
+
+		const applied = await vscode.workspace.applyEdit(edit, { isRefactoring: choice === 'Preview' });
+		if (!applied) {
+			return;
+		}
+		this.logDebug('Replaced rule matches', { ruleId: rule.id, replacedCount, fileCount });
+	}
+
+	public async extractMatchingLines() {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			void vscode.window.showErrorMessage('No active editor found.');
+			return;
+		}
+		const rules = this.getRulesForDocument(editor.document);
+		if (rules.length === 0) {
+			void vscode.window.showInformationMessage('No highlights exist for the current file.');
+			return;
+		}
+
+		const picks =
+			rules.length === 1
+				? [{ rule: rules[0] }]
+				: await vscode.window.showQuickPick(
+						rules.map((rule) => ({
+							label: rule.name ?? rule.pattern,
+							description: this.describeRule(rule),
+							picked: true,
+							rule,
+						})),
+						{ canPickMany: true, placeHolder: 'Select the rules whose matching lines should be extracted' }
+				  );
+		if (!picks || picks.length === 0) {
+			return;
+		}
+		const selectedRules = picks.map((pick) => pick.rule);
+
+		let wholeScope = false;
+		if (selectedRules.some((rule) => rule.scope !== 'document')) {
+			const target = await vscode.window.showQuickPick(
+				[
+					{ label: 'Current File', wholeScope: false },
+					{ label: 'All Files in Scope', description: 'Every file the selected rules cover', wholeScope: true },
+				],
+				{ placeHolder: 'Extract matching lines from...' }
+			);
+			if (!target) {
+				return;
+			}
+			wholeScope = target.wholeScope;
+		}
+
+		const prefixPicks = await vscode.window.showQuickPick(
+			[
+				{ label: 'File Name Prefix', picked: wholeScope, option: 'file' as const },
+				{ label: 'Line Number Prefix', picked: true, option: 'line' as const },
+			],
+			{ canPickMany: true, placeHolder: 'Select the prefixes to add to each line' }
+		);
+		if (!prefixPicks) {
+			return;
+		}
+		const contextInput = await vscode.window.showInputBox({
+			prompt: 'Number of context lines to include around each match',
+			value: '0',
+			validateInput: (value) => (/^\d+$/.test(value.trim()) ? undefined : 'Enter a whole number.'),
+		});
+		if (contextInput === undefined) {
+			return;
+		}
+		const contextLines = Number(contextInput.trim());
+		const includeFile = prefixPicks.some((pick) => pick.option === 'file');
+		const includeLine = prefixPicks.some((pick) => pick.option === 'line');
+
+		const currentUri = editor.document.uri.toString();
+		const linesByUri = new Map<string, Set<number>>();
+		if (!wholeScope) {
+			this.applyRules(editor);
+		}
+		for (const rule of selectedRules) {
+			if (wholeScope) {
+				await this.ensureScopeScan(rule);
+			}
+			for (const [uri, stats] of rule.statsByDocument) {
+				if (!wholeScope && uri !== currentUri) {
+					continue;
+				}
+				const lines = linesByUri.get(uri) ?? new Set<number>();
+				for (const range of stats.ranges) {
+					for (let line = range.start.line; line <= range.end.line; line += 1) {
+						lines.add(line);
+					}
+				}
+				linesByUri.set(uri, lines);
+			}
+		}
+
+		const output: string[] = [];
+		let extractedCount = 0;
+		for (const uri of [...linesByUri.keys()].sort((a, b) => a.localeCompare(b))) {
+			let document: vscode.TextDocument;
+			try {
+				document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uri));
+			} catch {
+				continue;
+			}
+			const matchedLines = linesByUri.get(uri) ?? new Set<number>();
+			const fileLabel = vscode.workspace.asRelativePath(document.uri);
+			// Separators follow grep: ':' marks a matching line, '-' a context line, '--' a gap.
+			let previousLine: number | null = null;
+			for (const line of HighlightController.expandContextLines(matchedLines, contextLines, document.lineCount)) {
+				if (previousLine !== null && line > previousLine + 1) {
+					output.push('--');
+				}
+				const separator = matchedLines.has(line) ? ':' : '-';
+				let prefix = '';
+				if (includeFile) {
+					prefix += `${fileLabel}${separator}`;
+				}
+				if (includeLine) {
+					prefix += `${line + 1}${separator}`;
+				}
+				output.push(`${prefix}${prefix ? ' ' : ''}${document.lineAt(line).text}`);
+				if (matchedLines.has(line)) {
+					extractedCount += 1;
+				}
+				previousLine = line;
+			}
+			if (wholeScope && previousLine !== null) {
+				output.push('--');
+			}
+		}
+		if (output[output.length - 1] === '--') {
+			output.pop();
+		}
+		if (extractedCount === 0) {
+			void vscode.window.showInformationMessage('No matching lines were found.');
+			return;
+		}
+
+		const extracted = await vscode.workspace.openTextDocument({
+			content: output.join('\n'),
+			language: wholeScope ? 'plaintext' : editor.document.languageId,
+		});
+		const extractedEditor = await vscode.window.showTextDocument(extracted, { preview: false });
+		// Copy the rules onto the new document so the extracted lines keep their highlighting.
+		// The document is untitled, so these copies are never persisted and go away when it closes.
+		for (const rule of selectedRules) {
+			this.createRuleFromOptions(
+				extractedEditor,
+				{
+					name: rule.name,
+					pattern: rule.pattern,
+					color: rule.color,
+					matchCase: rule.matchCase,
+					matchWholeWord: rule.matchWholeWord,
+					useRegex: rule.useRegex,
+					style: rule.style,
+					wholeLine: rule.wholeLine,
+					gutterIcon: rule.gutterIcon,
+					lightColor: rule.lightColor,
+					darkColor: rule.darkColor,
+					profileId: rule.profileId,
+				},
+				'document'
+			);
+		}
+		this.logDebug('Extracted matching lines', { rules: selectedRules.length, lines: extractedCount });
+	}
+
+	private async findEditorForDocument(documentUri: string): Promise<vscode.TextEditor | undefined> {
+		const visible = vscode.window.visibleTextEditors.find(
+			(candidate) => candidate.document.uri.toString() === documentUri
+		);
+		if (visible) {
+			return visible;
+		}
+		try {
+			const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(documentUri));
+			return await vscode.window.showTextDocument(document, { preview: false });
+		} catch {
+			return undefined;
+		}
+	}
+
+	private async pickRule(rules: HighlightRule[], placeHolder: string): Promise<HighlightRule | undefined> {
+		if (rules.length === 1) {
+			return rules[0];
+		}
+
+		// Offer the previously navigated rule first so repeated presses only need Enter.
+		const ordered = [...rules].sort(
+			(a, b) => Number(b.id === this.lastNavigatedRuleId) - Number(a.id === this.lastNavigatedRuleId)
+		);
+		const pick = await vscode.window.showQuickPick(
+			ordered.map((candidate) => ({
+				label: candidate.name ?? candidate.pattern,
+				description: this.describeRule(candidate),
+				detail: `${HighlightController.describeScope(candidate.scope)} - ${this.getTotalMatchCount(candidate)} matches`,
+				rule: candidate,
+			})),
+			{ placeHolder }
+		);
+		return pick?.rule;
+	}
+
+	public async navigateToMatch(uri: string, ruleId: string, direction: NavigationDirection) {
+		const rule = this.ruleIndex.get(ruleId);
+		if (!rule) {
+			return;
+		}
+		this.lastNavigatedRuleId = rule.id;
+
+		await this.ensureScopeScan(rule);
+		const matches = this.getOrderedMatches(rule);
+		if (matches.length === 0) {
+			void vscode.window.showInformationMessage(`No matches were found for "${rule.pattern}".`);
+			return;
+		}
+
+		const activeEditor = vscode.window.activeTextEditor;
+		let currentIndex: number | null = null;
+		if (activeEditor) {
+			const activeUri = activeEditor.document.uri.toString();
+			const stats = rule.statsByDocument.get(activeUri);
+			if (stats) {
+				const localIndex = HighlightController.computeSelectionMatchIndex(
+					activeEditor.selection,
+					stats.ranges,
+					activeEditor.document
+				);
+				const globalIndex = this.computeGlobalMatchIndex(rule, activeUri, localIndex);
+				if (globalIndex && globalIndex > 0) {
+					currentIndex = globalIndex - 1;
+				}
+			}
+		}
+
+		if (currentIndex === null && uri) {
+			const stats = rule.statsByDocument.get(uri);
+			const localIndex = stats?.currentMatchIndex ?? null;
+			const globalIndex = this.computeGlobalMatchIndex(rule, uri, localIndex);
+			if (globalIndex && globalIndex > 0) {
+				currentIndex = globalIndex - 1;
+			}
+		}
+
+		if (currentIndex === null && typeof rule.globalMatchIndex === 'number' && rule.globalMatchIndex > 0) {
+			currentIndex = rule.globalMatchIndex - 1;
+		}
+
+		let targetIndex: number;
+		if (direction === 'next') {
+			targetIndex = currentIndex === null ? 0 : (currentIndex + 1) % matches.length;
+		} else {
+			targetIndex = currentIndex === null ? matches.length - 1 : (currentIndex - 1 + matches.length) % matches.length;
+		}
+
+		await this.revealMatch(rule, matches[targetIndex], targetIndex + 1);
+	}
+
+	public async goToMatch(ruleId?: string) {
+		const activeEditor = vscode.window.activeTextEditor;
+		let rules: HighlightRule[];
+		const explicitRule = ruleId ? this.ruleIndex.get(ruleId) : undefined;
+		if (explicitRule) {
+			rules = [explicitRule];
+		} else {
+			const candidates = activeEditor
+				? this.getRulesForDocument(activeEditor.document)
+				: [...this.ruleIndex.values()].filter((rule) => this.isRuleActive(rule));
+			if (candidates.length === 0) {
+				void vscode.window.showInformationMessage('There are no active highlight rules.');
+				return;
+			}
+			if (candidates.length === 1) {
+				rules = candidates;
+			} else {
+				const pick = await vscode.window.showQuickPick(
+					[
+						{ label: 'All Rules', description: `${candidates.length} rules`, rules: candidates },
+						...candidates.map((rule) => ({
+							label: rule.name ?? rule.pattern,
+							description: this.describeRule(rule),
+							detail: HighlightController.describeScope(rule.scope),
+							rules: [rule],
+						})),
+					],
+					{ placeHolder: 'Select the rule whose matches should be listed' }
+				);
+				if (!pick) {
+					return;
+				}
+				rules = pick.rules;
+			}
+		}
+
+		await Promise.all(rules.map((rule) => this.ensureScopeScan(rule)));
+
+		const documents = new Map<string, vscode.TextDocument | null>();
+		const items: (MatchQuickPickItem | vscode.QuickPickItem)[] = [];
+		const matchesByUri = new Map<string, { rule: HighlightRule; location: RuleMatchLocation; globalIndex: number }[]>();
+		for (const rule of rules) {
+			this.getOrderedMatches(rule).forEach((location, index) => {
+				const entries = matchesByUri.get(location.uri) ?? [];
+				entries.push({ rule, location, globalIndex: index + 1 });
+				matchesByUri.set(location.uri, entries);
+			});
+		}
+
+		for (const uri of [...matchesByUri.keys()].sort((a, b) => a.localeCompare(b))) {
+			if (!documents.has(uri)) {
+				try {
+					documents.set(uri, await vscode.workspace.openTextDocument(vscode.Uri.parse(uri)));
+				} catch {
+					documents.set(uri, null);
+				}
+			}
+			const document = documents.get(uri);
+			if (!document) {
+				continue;
+			}
+			const entries = matchesByUri.get(uri) ?? [];
+			entries.sort((a, b) => HighlightController.compareRanges(a.location.range, b.location.range));
+			items.push({ label: vscode.workspace.asRelativePath(document.uri), kind: vscode.QuickPickItemKind.Separator });
+			for (const entry of entries) {
+				const line = entry.location.range.start.line;
+				if (line >= document.lineCount) {
+					continue;
+				}
+				items.push({
+					label: `${line + 1}: ${document.lineAt(line).text.trim()}`,
+					description: rules.length > 1 ? entry.rule.name ?? entry.rule.pattern : undefined,
+					document,
+					...entry,
+				});
+			}
+		}
+
+		const matchCount = items.filter((item): item is MatchQuickPickItem => 'location' in item).length;
+		if (matchCount === 0) {
+			void vscode.window.showInformationMessage('No matches were found.');
+			return;
+		}
+
+		const originalEditor = activeEditor;
+		const originalSelection = activeEditor?.selection;
+		const quickPick = vscode.window.createQuickPick<MatchQuickPickItem | vscode.QuickPickItem>();
+		quickPick.items = items;
+		quickPick.matchOnDescription = true;
+		quickPick.placeholder = `Go to one of ${matchCount} ${matchCount === 1 ? 'match' : 'matches'}`;
+
+		let accepted = false;
+		quickPick.onDidChangeActive((active) => {
+			const item = active[0];
+			if (item && 'location' in item) {
+				void vscode.window.showTextDocument(item.document, {
+					preview: true,
+					preserveFocus: true,
+					selection: item.location.range,
+				});
+			}
+		});
+		quickPick.onDidAccept(() => {
+			const item = quickPick.selectedItems[0];
+			if (!item || !('location' in item)) {
+				return;
+			}
+			accepted = true;
+			quickPick.hide();
+			void this.revealMatch(item.rule, item.location, item.globalIndex);
+		});
+		quickPick.onDidHide(() => {
+			quickPick.dispose();
+			if (!accepted && originalEditor) {
+				void vscode.window.showTextDocument(originalEditor.document, {
+					viewColumn: originalEditor.viewColumn,
+					selection: originalSelection,
+				});
+			}
+		});
+		quickPick.show();
+	}
+
+	private async revealMatch(rule: HighlightRule, target: RuleMatchLocation, globalIndex: number) {
+		const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(target.uri));
+		const editor = await vscode.window.showTextDocument(document, { preview: false });
+		this.applyRules(editor);
+		editor.selection = new vscode.Selection(target.range.start, target.range.end);
+		editor.revealRange(target.range, vscode.TextEditorRevealType.InCenter);
+
+		const localIndex = this.getLocalIndexForMatch(rule, target.uri, target.range);
+		const stats = this.getOrCreateStats(rule, target.uri);
+		stats.currentMatchIndex = localIndex;
+		rule.globalMatchIndex = globalIndex;
+
+		this.notifyRulesChanged();
+	}
+
+	public getProfileSnapshots(): PanelProfile[] {
+		return this.profiles.map((profile) => ({
+			...profile,
+			ruleCount: [...this.ruleIndex.values()].filter((rule) => rule.profileId === profile.id).length,
+		}));
+	}
+
+	public getCurrentProfileId(): string | null {
+		return this.currentProfileId;
+	}
+
+	public selectProfile(profileId: string | null) {
+		const profile = profileId ? this.getProfile(profileId) : null;
+		this.currentProfileId = profile?.id ?? null;
+		if (profile && !profile.active) {
+			this.setProfileActive(profile, true);
+		}
+		this.persistProfiles();
+		this.notifyRulesChanged();
+	}
+
+	public async createProfile(): Promise<RuleProfile | undefined> {
+		const name = await vscode.window.showInputBox({
+			prompt: 'Profile name',
+			placeHolder: 'Examples: payment logs / perf investigation / code review',
+			ignoreFocusOut: true,
+			validateInput: (value) => this.validateProfileName(value),
+		});
+		if (!name) {
+			return undefined;
+		}
+
+		const profile: RuleProfile = { id: HighlightController.createId(), name: name.trim(), active: true };
+		this.profiles.push(profile);
+		this.currentProfileId = profile.id;
+		this.persistProfiles();
+		this.notifyRulesChanged();
+		void vscode.window.showInformationMessage(
+			`Profile "${profile.name}" created. New highlights will be added to it.`
+		);
+		return profile;
+	}
+
+	public async activateProfile(profileId?: string) {
+		const profile = await this.resolveProfile(profileId, 'Select a profile to activate', (candidate) => !candidate.active);
+		if (profile) {
+			this.setProfileActive(profile, true);
+		}
+	}
+
+	public async deactivateProfile(profileId?: string) {
+		const profile = await this.resolveProfile(profileId, 'Select a profile to deactivate', (candidate) => candidate.active);
+		if (profile) {
+			this.setProfileActive(profile, false);
+		}
+	}
+
+	public async renameProfile(profileId?: string) {
+		const profile = await this.resolveProfile(profileId, 'Select a profile to rename');
+		if (!profile) {
+			return;
+		}
+
+		const name = await vscode.window.showInputBox({
+			prompt: 'New profile name',
+			value: profile.name,
+			ignoreFocusOut: true,
+			validateInput: (value) => this.validateProfileName(value, profile.id),
+		});
+		if (!name || name.trim() === profile.name) {
+			return;
+		}
+
+		profile.name = name.trim();
+		this.persistProfiles();
+		this.notifyRulesChanged();
+	}
+
+	public async duplicateProfile(profileId?: string) {
+		const source = await this.resolveProfile(profileId, 'Select a profile to duplicate');
+		if (!source) {
+			return;
+		}
+
+		const profile: RuleProfile = {
+			id: HighlightController.createId(),
+			name: this.createUniqueProfileName(`${source.name} copy`),
+			active: source.active,
+		};
+		this.profiles.push(profile);
+
+		let copiedCount = 0;
+		for (const rule of [...this.ruleIndex.values()]) {
+			if (rule.profileId !== source.id) {
+				continue;
+			}
+			const copy = this.createRuleInstance(HighlightController.serializeRuleDefinition(rule), rule.targetUri, 'user');
+			if (copy) {
+				copy.profileId = profile.id;
+				this.registerRule(copy);
+				copiedCount += 1;
+			}
+		}
+
+		for (const editor of vscode.window.visibleTextEditors) {
+			this.applyRules(editor);
+		}
+		this.persistProfiles();
+		this.persistRules();
+		this.notifyRulesChanged();
+		void vscode.window.showInformationMessage(
+			`Duplicated "${source.name}" as "${profile.name}" with ${copiedCount} ${copiedCount === 1 ? 'rule' : 'rules'}.`
+		);
+	}
+
+	public async deleteProfile(profileId?: string) {
+		const profile = await this.resolveProfile(profileId, 'Select a profile to delete');
+		if (!profile) {
+			return;
+		}
+
+		const rules = [...this.ruleIndex.values()].filter((rule) => rule.profileId === profile.id);
+		let deleteRules = false;
+		if (rules.length > 0) {
+			const deleteLabel = 'Delete Rules';
+			const keepLabel = 'Keep Rules';
+			const choice = await vscode.window.showWarningMessage(
+				`Delete profile "${profile.name}"? It contains ${rules.length} highlight ${rules.length === 1 ? 'rule' : 'rules'}.`,
+				{ modal: true, detail: 'Kept rules stay active without a profile.' },
+				deleteLabel,
+				keepLabel
+			);
+			if (!choice) {
+				return;
+			}
+			deleteRules = choice === deleteLabel;
+		}
+
+		const index = this.profiles.findIndex((candidate) => candidate.id === profile.id);
+		if (index !== -1) {
+			this.profiles.splice(index, 1);
+		}
+		if (this.currentProfileId === profile.id) {
+			this.currentProfileId = null;
+		}
+
+		for (const rule of rules) {
+			if (deleteRules) {
+				this.removeRuleByInstance(rule);
+			} else {
+				rule.profileId = undefined;
+				this.scheduleScopeScan(rule);
+				this.refreshEditorsForRule(rule);
+			}
+		}
+
+		this.persistProfiles();
+		this.persistRules();
+		this.notifyRulesChanged();
+	}
+
+	public async manageProfiles() {
+		const newProfileItem: ProfileQuickPickItem = { label: '$(add) New Profile...', profile: null };
+		const pick = await vscode.window.showQuickPick<ProfileQuickPickItem>(
+			[
+				newProfileItem,
+				...this.profiles.map((profile) => this.createProfileQuickPickItem(profile)),
+			],
+			{
+				placeHolder: 'Select a highlight profile',
+				ignoreFocusOut: true,
+			}
+		);
+		if (!pick) {
+			return;
+		}
+		if (!pick.profile) {
+			await this.createProfile();
+			return;
+		}
+
+		const profile = pick.profile;
+		const actions: ProfileActionQuickPickItem[] = [
+			profile.active
+				? { label: 'Deactivate', description: 'Hide its highlights without deleting them', action: 'deactivate' }
+				: { label: 'Activate', description: 'Show its highlights again', action: 'activate' },
+			{ label: 'Rename...', action: 'rename' },
+			{ label: 'Duplicate', action: 'duplicate' },
+			{ label: 'Delete...', action: 'delete' },
+		];
+		const actionPick = await vscode.window.showQuickPick(actions, {
+			placeHolder: `Profile "${profile.name}"`,
+			ignoreFocusOut: true,
+		});
+		switch (actionPick?.action) {
+			case 'activate':
+				await this.activateProfile(profile.id);
+				break;
+			case 'deactivate':
+				await this.deactivateProfile(profile.id);
+				break;
+			case 'rename':
+				await this.renameProfile(profile.id);
+				break;
+			case 'duplicate':
+				await this.duplicateProfile(profile.id);
+				break;
+			case 'delete':
+				await this.deleteProfile(profile.id);
+				break;
+			default:
+				break;
+		}
+	}
+
+	public async createRuleFromPayload(payload: CreateRulePayload) {
+		const trimmedPattern = payload.pattern.trim();
+		if (!trimmedPattern) {
+			void vscode.window.showErrorMessage('Enter a value to highlight.');
+			return;
+		}
+
+		const trimmedColor = payload.color.trim();
+		if (!trimmedColor) {
+			void vscode.window.showErrorMessage('Pick a highlight color.');
+			return;
+		}
+
+		const documentUri = vscode.Uri.parse(payload.documentUri);
+		const document =
+			vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === payload.documentUri) ??
+			(await vscode.workspace.openTextDocument(documentUri));
+		const editor =
+			vscode.window.visibleTextEditors.find((e) => e.document.uri.toString() === payload.documentUri) ??
+			(await vscode.window.showTextDocument(document));
+
+		const createdRule = this.createRuleFromOptions(
+			editor,
+			{
+				pattern: trimmedPattern,
+				color: trimmedColor,
+				matchCase: payload.matchCase,
+				matchWholeWord: payload.matchWholeWord,
+				useRegex: payload.useRegex,
+				fileFilter: payload.fileFilter,
+				style: HighlightController.DECORATION_STYLES.find((style) => style === payload.style),
+				wholeLine: payload.wholeLine === true,
+			},
+			payload.scope
+		);
+
+		if (createdRule) {
+			void vscode.window.showInformationMessage(HighlightController.getScopeCreationMessage(createdRule.scope));
+		}
+	}
+
+	private createRuleFromOptions(
+		editor: vscode.TextEditor,
+		options: RuleCreationOptions,
+		scope?: RuleScope
+	): HighlightRule | null {
+		const pattern = options.pattern.trim();
+		if (!pattern) {
+			void vscode.window.showErrorMessage('Enter a value to highlight.');
+			return null;
+		}
+
+		const color = options.color.trim();
+		if (!color) {
+			void vscode.window.showErrorMessage('Pick a highlight color.');
+			return null;
+		}
+
+		const normalizedFilter = HighlightController.normalizeFileFilter(options.fileFilter);
+		const scopeInfo = this.resolveScopeForDocument(editor.document, scope);
+		const rule: HighlightRule = {
+			id: HighlightController.createId(),
+			name: options.name,
+			pattern,
+			color,
+			matchCase: options.matchCase,
+			matchWholeWord: options.matchWholeWord,
+			useRegex: options.useRegex,
+			decoration: HighlightController.createDecoration({
+				color,
+				style: options.style ?? 'background',
+				wholeLine: options.wholeLine ?? false,
+				gutterIcon: options.gutterIcon ?? 'none',
+				lightColor: options.lightColor,
+				darkColor: options.darkColor,
+			}),
+			scope: scopeInfo.scope,
+			targetUri: scopeInfo.targetUri,
+			statsByDocument: new Map(),
+			globalMatchIndex: null,
+			fileFilter: normalizedFilter,
+			filterMatchers: HighlightController.createFilterMatchers(normalizedFilter),
+			source: 'user',
+			// Profiles live in workspace state, so a global rule cannot belong to one.
+			profileId: scopeInfo.scope === 'global' ? undefined : (options.profileId ?? this.currentProfileId ?? undefined),
+			enabled: options.enabled ?? true,
+			style: options.style ?? 'background',
+			wholeLine: options.wholeLine ?? false,
+			gutterIcon: options.gutterIcon ?? 'none',
+			lightColor: options.lightColor,
+			darkColor: options.darkColor,
+		};
+
+		if (rule.useRegex) {
+			try {
+				this.buildRegExp(rule);
+			} catch (error) {
+				rule.decoration.dispose();
+				const message = error instanceof Error ? error.message : String(error);
+				void vscode.window.showErrorMessage(`Invalid regular expression: ${message}`);
+				return null;
+			}
+		}
+
+		const key = scopeInfo.key;
+		const rules = this.rulesByScope.get(key) ?? [];
+		rules.push(rule);
+		this.rulesByScope.set(key, rules);
+		this.ruleIndex.set(rule.id, rule);
+		this.logDebug('Created highlight rule', {
+			ruleId: rule.id,
+			pattern: rule.pattern,
+			scope: rule.scope,
+			targetUri: rule.targetUri,
+			scopeKey: key,
+			totalRulesForKey: rules.length,
+		});
+		this.scheduleScopeScan(rule);
+
+		this.refreshEditorsForScope(rule.scope, rule.targetUri);
+		this.persistRules();
+		this.notifyRulesChanged();
+		return rule;
+	}
+
+	private restoreRules() {
+		this.restoreRulesFrom(this.context.workspaceState.get<StoredRuleMap>(HighlightController.RULE_STORAGE_KEY));
+		this.restoreRulesFrom(this.context.globalState.get<StoredRuleMap>(HighlightController.RULE_STORAGE_KEY));
+	}
+
+	private restoreRulesFrom(stored: StoredRuleMap | undefined) {
+		if (!stored || typeof stored !== 'object') {
+			return;
+		}
+
+		let restoredCount = 0;
+		for (const entries of Object.values(stored)) {
+			if (!Array.isArray(entries)) {
+				continue;
+			}
+			for (const entry of entries) {
+				const definition = HighlightController.normalizeStoredRuleDefinition(entry);
+				if (!definition || this.ruleIndex.has(definition.id)) {
+					continue;
+				}
+				const rule = this.createRuleInstance(definition, definition.targetUri, 'user', definition.id);
+				if (rule) {
+					rule.profileId = definition.scope === 'global' ? undefined : definition.profileId;
+					this.registerRule(rule);
+					restoredCount += 1;
+				}
+			}
+		}
+
+		this.logDebug('Restored highlight rules from workspace state', { restoredCount });
+		if (restoredCount === 0) {
+			return;
+		}
+		for (const editor of vscode.window.visibleTextEditors) {
+			this.applyRules(editor);
+		}
+		this.notifyRulesChanged();
+	}
+
+	private loadConfiguredRules() {
+		const previousRules = [...this.ruleIndex.values()].filter((rule) => rule.source === 'settings');
+		for (const rule of previousRules) {
+			this.removeRuleByInstance(rule);
+		}
+
+		let loadedCount = 0;
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const entries = vscode.workspace
+				.getConfiguration(HighlightController.CONFIGURATION_SECTION, folder.uri)
+				.get<unknown[]>(HighlightController.CONFIGURATION_RULES_KEY, []);
+			if (!Array.isArray(entries)) {
+				continue;
+			}
+			for (const entry of entries) {
+				const definition = HighlightController.normalizeConfiguredRuleDefinition(entry);
+				if (!definition) {
+					this.logDebug('Skipped invalid configured rule', { folder: folder.uri.toString() });
+					continue;
+				}
+				const targetUri = HighlightController.resolveConfiguredTargetUri(folder, definition);
+				const rule = this.createRuleInstance(definition, targetUri, 'settings');
+				if (rule) {
+					this.registerRule(rule);
+					loadedCount += 1;
+				}
+			}
+		}
+
+		this.logDebug('Loaded highlight rules from settings', { loadedCount, removedCount: previousRules.length });
+		if (loadedCount === 0 && previousRules.length === 0) {
+			return;
+		}
+		for (const editor of vscode.window.visibleTextEditors) {
+			this.applyRules(editor);
+		}
+		this.notifyRulesChanged();
+	}
+
+	private static resolveConfiguredTargetUri(
+		folder: vscode.WorkspaceFolder,
+		definition: ConfiguredRuleDefinition
+	): string {
+		if (definition.scope === 'workspaceFolder' || !definition.path) {
+			return folder.uri.toString();
+		}
+		return vscode.Uri.joinPath(folder.uri, definition.path).toString();
+	}
+
+	private static getProjectRuleFileUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+		return vscode.Uri.joinPath(folder.uri, ...HighlightController.PROJECT_RULE_FILE_SEGMENTS);
+	}
+
+	private async loadProjectRuleFiles() {
+		const folders = vscode.workspace.workspaceFolders ?? [];
+		const activeFiles = new Set(
+			folders.map((folder) => HighlightController.getProjectRuleFileUri(folder).toString())
+		);
+		let removedCount = 0;
+		for (const fileUri of [...this.projectRuleIdsByFile.keys()]) {
+			if (!activeFiles.has(fileUri)) {
+				removedCount += this.removeProjectRules(fileUri);
+			}
+		}
+		if (removedCount > 0) {
+			this.notifyRulesChanged();
+		}
+		for (const folder of folders) {
+			await this.loadProjectRuleFile(folder);
+		}
+	}
+
+	private async loadProjectRuleFile(folder: vscode.WorkspaceFolder) {
+		const fileUri = HighlightController.getProjectRuleFileUri(folder);
+		let parsed: ExportedRuleFile | null = null;
+		try {
+			const raw = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(fileUri));
+			parsed = HighlightController.parseExportedRuleFile(HighlightController.stripJsonComments(raw));
+		} catch (error) {
+			if (!(error instanceof vscode.FileSystemError && error.code === 'FileNotFound')) {
+				const message = error instanceof Error ? error.message : String(error);
+				void vscode.window.showWarningMessage(
+					`Failed to load project highlight rules from ${vscode.workspace.asRelativePath(fileUri)}: ${message}`
+				);
+			}
+		}
+
+		const key = fileUri.toString();
+		const removedCount = this.removeProjectRules(key);
+		const ruleIds = new Set<string>();
+		let skippedCount = 0;
+		for (const entry of parsed?.rules ?? []) {
+			// Exported document rules carry no path, so they cannot be anchored to a file and are skipped.
+			const definition = HighlightController.normalizeConfiguredRuleDefinition(entry);
+			if (!definition) {
+				skippedCount += 1;
+				this.logDebug('Skipped invalid project rule', { file: key });
+				continue;
+			}
+			const targetUri = HighlightController.resolveConfiguredTargetUri(folder, definition);
+			const rule = this.createRuleInstance(definition, targetUri, 'projectFile');
+			if (rule) {
+				this.registerRule(rule);
+				ruleIds.add(rule.id);
+			}
+		}
+		if (ruleIds.size > 0) {
+			this.projectRuleIdsByFile.set(key, ruleIds);
+		}
+
+		this.logDebug('Loaded project rule file', { file: key, loadedCount: ruleIds.size, removedCount, skippedCount });
+		if (skippedCount > 0) {
+			void vscode.window.showWarningMessage(
+				`Skipped ${skippedCount} ${skippedCount === 1 ? 'rule' : 'rules'} in ${vscode.workspace.asRelativePath(fileUri)}. Project rules must use the document (with a path), folder, folderRecursive, or workspaceFolder scope and have a valid pattern.`
+			);
+		}
+		if (ruleIds.size === 0 && removedCount === 0) {
 			return;
 		}
+		for (const editor of vscode.window.visibleTextEditors) {
+			this.applyRules(editor);
+		}
+		this.notifyRulesChanged();
+	}
+
+	private removeProjectRules(fileUri: string): number {
+		const ruleIds = this.projectRuleIdsByFile.get(fileUri);
+		if (!ruleIds) {
+			return 0;
+		}
+		this.projectRuleIdsByFile.delete(fileUri);
+		let removedCount = 0;
+		for (const ruleId of ruleIds) {
+			if (this.removeRuleById(ruleId)) {
+				removedCount += 1;
+			}
+		}
+		return removedCount;
+	}
+
+	private createRuleInstance(
+		definition: ExportedRuleDefinition,
+		targetUri: string,
+		source: RuleSource,
+		id: string = HighlightController.createId()
+	): HighlightRule | null {
+		const fileFilter = HighlightController.normalizeFileFilter(definition.fileFilter);
+		const rule: HighlightRule = {
+			id,
+			name: definition.name,
+			pattern: definition.pattern,
+			color: definition.color,
+			matchCase: definition.matchCase,
+			matchWholeWord: definition.matchWholeWord,
+			useRegex: definition.useRegex,
+			decoration: HighlightController.createDecoration({
+				...definition,
+				wholeLine: definition.wholeLine ?? false,
+				gutterIcon: definition.gutterIcon ?? 'none',
+			}),
+			scope: definition.scope,
+			targetUri,
+			statsByDocument: new Map(),
+			globalMatchIndex: null,
+			fileFilter,
+			filterMatchers: HighlightController.createFilterMatchers(fileFilter),
+			source,
+			enabled: definition.enabled,
+			style: definition.style,
+			wholeLine: definition.wholeLine ?? false,
+			gutterIcon: definition.gutterIcon ?? 'none',
+			lightColor: definition.lightColor,
+			darkColor: definition.darkColor,
+		};
+
+		try {
+			this.buildRegExp(rule);
+		} catch (error) {
+			rule.decoration.dispose();
+			this.logDebug('Skipped rule with invalid pattern', {
+				ruleId: rule.id,
+				pattern: rule.pattern,
+				source,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return null;
+		}
+		return rule;
+	}
+
+	private registerRule(rule: HighlightRule) {
+		const key = HighlightController.createScopeKey(rule.scope, rule.targetUri);
+		const rules = this.rulesByScope.get(key) ?? [];
+		rules.push(rule);
+		this.rulesByScope.set(key, rules);
+		this.ruleIndex.set(rule.id, rule);
+		this.scheduleScopeScan(rule);
+	}
+
+	private getEditableRule(ruleId: string): HighlightRule | null {
+		const rule = this.ruleIndex.get(ruleId);
+		if (!rule) {
+			return null;
+		}
+		if (HighlightController.isReadOnlyRule(rule)) {
+			void vscode.window.showInformationMessage(
+				`"${rule.pattern}" is defined in ${HighlightController.describeRuleSource(rule.source)} and cannot be changed from the panel.`
+			);
+			return null;
+		}
+		return rule;
+	}
+
+	private static isReadOnlyRule(rule: HighlightRule): boolean {
+		return rule.source !== 'user';
+	}
+
+	private isRuleActive(rule: HighlightRule): boolean {
+		return rule.enabled && this.isProfileActive(rule);
+	}
+
+	private isProfileActive(rule: HighlightRule): boolean {
+		if (!rule.profileId) {
+			return true;
+		}
+		// Rules whose profile is unknown here (e.g. global rules from another workspace) stay visible.
+		return this.getProfile(rule.profileId)?.active ?? true;
+	}
 
-		await this.ensureScopeScan(rule);
-		const matches = this.getOrderedMatches(rule);
-		if (matches.length === 0) {
-			void vscode.window.showInformationMessage(`No matches were found for "${rule.pattern}".`);
+	private getProfile(profileId: string): RuleProfile | undefined {
+		return this.profiles.find((profile) => profile.id === profileId);
+	}
+
+	private setProfileActive(profile: RuleProfile, active: boolean) {
+		if (profile.active === active) {
 			return;
 		}
-
-		const activeEditor = vscode.window.activeTextEditor;
-		let currentIndex: number | null = null;
-		if (activeEditor) {
-			const activeUri = activeEditor.document.uri.toString();
-			const stats = rule.statsByDocument.get(activeUri);
-			if (stats) {
-				const localIndex = HighlightController.computeSelectionMatchIndex(
-					activeEditor.selection,
-					stats.ranges,
-					activeEditor.document
-				);
-				const globalIndex = this.computeGlobalMatchIndex(rule, activeUri, localIndex);
-				if (globalIndex && globalIndex > 0) {
-					currentIndex = globalIndex - 1;
-				}
+		profile.active = active;
+		for (const rule of this.ruleIndex.values()) {
+			if (rule.profileId !== profile.id) {
+				continue;
 			}
-		}
-
-		if (currentIndex === null && uri) {
-			const stats = rule.statsByDocument.get(uri);
-			const localIndex = stats?.currentMatchIndex ?? null;
-			const globalIndex = this.computeGlobalMatchIndex(rule, uri, localIndex);
-			if (globalIndex && globalIndex > 0) {
-				currentIndex = globalIndex - 1;
+			if (active) {
+				this.scheduleScopeScan(rule);
+			} else {
+				this.clearRuleFromAllDocuments(rule);
+				rule.globalMatchIndex = null;
 			}
 		}
-
-		if (currentIndex === null && typeof rule.globalMatchIndex === 'number' && rule.globalMatchIndex > 0) {
-			currentIndex = rule.globalMatchIndex - 1;
+		for (const editor of vscode.window.visibleTextEditors) {
+			this.applyRules(editor);
 		}
+		this.logDebug('Changed profile state', { profileId: profile.id, name: profile.name, active });
+		this.persistProfiles();
+		this.notifyRulesChanged();
+	}
 
-		let targetIndex: number;
-		if (direction === 'next') {
-			targetIndex = currentIndex === null ? 0 : (currentIndex + 1) % matches.length;
-		} else {
-			targetIndex = currentIndex === null ? matches.length - 1 : (currentIndex - 1 + matches.length) % matches.length;
+	private getOrCreateProfileByName(name: string): RuleProfile {
+		const existing = this.profiles.find((profile) => profile.name.toLowerCase() === name.toLowerCase());
+		if (existing) {
+			return existing;
 		}
+		const profile: RuleProfile = { id: HighlightController.createId(), name, active: true };
+		this.profiles.push(profile);
+		this.persistProfiles();
+		return profile;
+	}
 
-		const target = matches[targetIndex];
-		const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(target.uri));
-		const editor = await vscode.window.showTextDocument(document, { preview: false });
-		this.applyRules(editor);
-		editor.selection = new vscode.Selection(target.range.start, target.range.end);
-		editor.revealRange(target.range, vscode.TextEditorRevealType.InCenter);
+	private async resolveProfile(
+		profileId: string | undefined,
+		placeHolder: string,
+		predicate?: (profile: RuleProfile) => boolean
+	): Promise<RuleProfile | undefined> {
+		if (profileId) {
+			return this.getProfile(profileId);
+		}
+		const candidates = predicate ? this.profiles.filter(predicate) : this.profiles;
+		if (candidates.length === 0) {
+			void vscode.window.showInformationMessage('There are no matching highlight profiles.');
+			return undefined;
+		}
+		const pick = await vscode.window.showQuickPick(
+			candidates.map((profile) => this.createProfileQuickPickItem(profile)),
+			{ placeHolder, ignoreFocusOut: true }
+		);
+		return pick?.profile ?? undefined;
+	}
 
-		const localIndex = this.getLocalIndexForMatch(rule, target.uri, target.range);
-		const stats = this.getOrCreateStats(rule, target.uri);
-		stats.currentMatchIndex = localIndex;
-		rule.globalMatchIndex = targetIndex + 1;
+	private createProfileQuickPickItem(profile: RuleProfile): ProfileQuickPickItem {
+		const ruleCount = [...this.ruleIndex.values()].filter((rule) => rule.profileId === profile.id).length;
+		return {
+			label: profile.name,
+			description: `${profile.active ? 'Active' : 'Inactive'} - ${ruleCount} ${ruleCount === 1 ? 'rule' : 'rules'}`,
+			profile,
+		};
+	}
 
-		this.notifyRulesChanged();
+	private validateProfileName(value: string, ignoreProfileId?: string): string | undefined {
+		const trimmed = value.trim();
+		if (!trimmed) {
+			return 'Profile name cannot be empty.';
+		}
+		const duplicate = this.profiles.some(
+			(profile) => profile.id !== ignoreProfileId && profile.name.toLowerCase() === trimmed.toLowerCase()
+		);
+		return duplicate ? 'A profile with this name already exists.' : undefined;
 	}
 
-	public async createRuleFromPayload(payload: CreateRulePayload) {
-		const trimmedPattern = payload.pattern.trim();
-		if (!trimmedPattern) {
-			void vscode.window.showErrorMessage('Enter a value to highlight.');
-			return;
+	private createUniqueProfileName(baseName: string): string {
+		let name = baseName;
+		let suffix = 2;
+		while (this.validateProfileName(name)) {
+			name = `${baseName} ${suffix}`;
+			suffix += 1;
 		}
+		return name;
+	}
 
-		const trimmedColor = payload.color.trim();
-		if (!trimmedColor) {
-			void vscode.window.showErrorMessage('Pick a highlight color.');
+	private restoreProfiles() {
+		const stored = this.context.workspaceState.get<StoredProfileState>(HighlightController.PROFILE_STORAGE_KEY);
+		if (!stored || !Array.isArray(stored.profiles)) {
 			return;
 		}
-
-		const documentUri = vscode.Uri.parse(payload.documentUri);
-		const document =
-			vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === payload.documentUri) ??
-			(await vscode.workspace.openTextDocument(documentUri));
-		const editor =
-			vscode.window.visibleTextEditors.find((e) => e.document.uri.toString() === payload.documentUri) ??
-			(await vscode.window.showTextDocument(document));
-
-		const createdRule = this.createRuleFromOptions(
-			editor,
-			{
-				pattern: trimmedPattern,
-				color: trimmedColor,
-				matchCase: payload.matchCase,
-				matchWholeWord: payload.matchWholeWord,
-				useRegex: payload.useRegex,
-				fileFilter: payload.fileFilter,
-			},
-			payload.scope
-		);
-
-		if (createdRule) {
-			void vscode.window.showInformationMessage(HighlightController.getScopeCreationMessage(createdRule.scope));
+		for (const entry of stored.profiles) {
+			if (entry && typeof entry.id === 'string' && typeof entry.name === 'string') {
+				this.profiles.push({ id: entry.id, name: entry.name, active: entry.active !== false });
+			}
 		}
+		const currentProfileId = typeof stored.currentProfileId === 'string' ? stored.currentProfileId : null;
+		this.currentProfileId = currentProfileId && this.getProfile(currentProfileId) ? currentProfileId : null;
 	}
 
-	private createRuleFromOptions(
-		editor: vscode.TextEditor,
-		options: Omit<CreateRulePayload, 'documentUri' | 'scope'>,
-		scope?: RuleScope
-	): HighlightRule | null {
-		const pattern = options.pattern.trim();
-		if (!pattern) {
-			void vscode.window.showErrorMessage('Enter a value to highlight.');
-			return null;
+	private persistProfiles() {
+		const stored: StoredProfileState = {
+			profiles: this.profiles.map((profile) => ({ ...profile })),
+			currentProfileId: this.currentProfileId,
+		};
+		void Promise.resolve(
+			this.context.workspaceState.update(HighlightController.PROFILE_STORAGE_KEY, stored)
+		).catch((error) => {
+			console.warn(`${HighlightController.LOG_PREFIX} Failed to persist highlight profiles`, error);
+		});
+	}
+
+	private persistRules() {
+		const { workspaceRules, globalRules } = this.collectStoredRules();
+		this.writeStoredRules(this.context.workspaceState, workspaceRules);
+		// Every window writes the shared global store, so only write it when this window's global rules
+		// changed; otherwise its possibly outdated copy would erase rules another window added.
+		const globalRulesJson = JSON.stringify(globalRules);
+		if (globalRulesJson !== this.storedGlobalRulesJson) {
+			this.storedGlobalRulesJson = globalRulesJson;
+			this.writeStoredRules(this.context.globalState, globalRules);
 		}
+	}
 
-		const color = options.color.trim();
-		if (!color) {
-			void vscode.window.showErrorMessage('Pick a highlight color.');
-			return null;
+	private collectStoredRules(): { workspaceRules: StoredRuleMap; globalRules: StoredRuleMap } {
+		const workspaceRules: StoredRuleMap = {};
+		const globalRules: StoredRuleMap = {};
+		for (const [key, rules] of this.rulesByScope) {
+			const userRules = rules.filter((rule) => rule.source === 'user');
+			if (userRules.length === 0 || HighlightController.isUntitledDocumentRule(userRules[0])) {
+				continue;
+			}
+			// Every rule under a key shares its scope, so the first one decides the store.
+			const stored = userRules[0].scope === 'global' ? globalRules : workspaceRules;
+			stored[key] = userRules.map((rule) => HighlightController.serializeStoredRule(rule));
 		}
+		return { workspaceRules, globalRules };
+	}
 
-		const normalizedFilter = HighlightController.normalizeFileFilter(options.fileFilter);
-		const scopeInfo = this.resolveScopeForDocument(editor.document, scope);
-		const rule: HighlightRule = {
-			id: HighlightController.createId(),
-			pattern,
-			color,
-			matchCase: options.matchCase,
-			matchWholeWord: options.matchWholeWord,
-			useRegex: options.useRegex,
-			decoration: HighlightController.createDecoration(color),
-			scope: scopeInfo.scope,
-			targetUri: scopeInfo.targetUri,
-			statsByDocument: new Map(),
-			globalMatchIndex: null,
-			fileFilter: normalizedFilter,
-			filterMatchers: HighlightController.createFilterMatchers(normalizedFilter),
-		};
+	private static isUntitledDocumentRule(rule: HighlightRule): boolean {
+		return rule.scope === 'document' && vscode.Uri.parse(rule.targetUri).scheme === 'untitled';
+	}
 
-		if (rule.useRegex) {
-			try {
-				this.buildRegExp(rule);
-			} catch (error) {
-				rule.decoration.dispose();
-				const message = error instanceof Error ? error.message : String(error);
-				void vscode.window.showErrorMessage(`Invalid regular expression: ${message}`);
-				return null;
+	/** Untitled documents cannot be reopened, so their rules live only as long as the document. */
+	private removeUntitledDocumentRules(documentUri: string) {
+		const rules = this.rulesByScope.get(HighlightController.createScopeKey('document', documentUri)) ?? [];
+		let removed = false;
+		for (const rule of [...rules]) {
+			if (!HighlightController.isReadOnlyRule(rule) && this.removeRuleByInstance(rule)) {
+				removed = true;
 			}
 		}
+		if (removed) {
+			this.notifyRulesChanged();
+		}
+	}
 
-		const key = scopeInfo.key;
-		const rules = this.rulesByScope.get(key) ?? [];
-		rules.push(rule);
-		this.rulesByScope.set(key, rules);
-		this.ruleIndex.set(rule.id, rule);
-		this.logDebug('Created highlight rule', {
-			ruleId: rule.id,
-			pattern: rule.pattern,
-			scope: rule.scope,
-			targetUri: rule.targetUri,
-			scopeKey: key,
-			totalRulesForKey: rules.length,
+	private writeStoredRules(storage: vscode.Memento, stored: StoredRuleMap) {
+		void Promise.resolve(storage.update(HighlightController.RULE_STORAGE_KEY, stored)).catch((error) => {
+			console.warn(`${HighlightController.LOG_PREFIX} Failed to persist highlight rules`, error);
 		});
-		this.scheduleScopeScan(rule);
+	}
 
-		this.refreshEditorsForScope(rule.scope, rule.targetUri);
-		this.notifyRulesChanged();
-		return rule;
+	private syncGlobalRules() {
+		const stored = this.context.globalState.get<StoredRuleMap>(HighlightController.RULE_STORAGE_KEY) ?? {};
+		if (JSON.stringify(stored) === JSON.stringify(this.collectStoredRules().globalRules)) {
+			return;
+		}
+
+		// Another window changed the global rules; replace only the ones that differ so unchanged rules keep their scan results.
+		const storedById = new Map<string, string>();
+		for (const entries of Object.values(stored)) {
+			for (const entry of Array.isArray(entries) ? entries : []) {
+				if (entry && typeof entry.id === 'string') {
+					storedById.set(entry.id, JSON.stringify(entry));
+				}
+			}
+		}
+		for (const rule of [...this.ruleIndex.values()]) {
+			if (
+				rule.source === 'user' &&
+				rule.scope === 'global' &&
+				storedById.get(rule.id) !== JSON.stringify(HighlightController.serializeStoredRule(rule))
+			) {
+				this.removeRuleByInstance(rule);
+			}
+		}
+		this.restoreRulesFrom(stored);
+		this.storedGlobalRulesJson = JSON.stringify(this.collectStoredRules().globalRules);
+		this.persistRules();
 	}
 
 	private moveRuleToScope(rule: HighlightRule, scopeInfo: ScopeInfo) {
@@ -803,6 +3201,9 @@ class HighlightController {
 
 		rule.scope = scopeInfo.scope;
 		rule.targetUri = scopeInfo.targetUri;
+		if (rule.scope === 'global') {
+			rule.profileId = undefined;
+		}
 
 		const nextKey = scopeInfo.key;
 		const nextRules = this.rulesByScope.get(nextKey) ?? [];
@@ -854,6 +3255,7 @@ class HighlightController {
 		this.ruleIndex.delete(rule.id);
 		this.clearRuleFromAllDocuments(rule);
 		rule.decoration.dispose();
+		this.persistRules();
 		this.logDebug('Removed highlight rule', {
 			ruleId: rule.id,
 			scope: rule.scope,
@@ -906,7 +3308,10 @@ class HighlightController {
 			} else {
 				stats.currentMatchIndex = null;
 			}
-			editor.setDecorations(rule.decoration, ranges);
+			editor.setDecorations(
+				rule.decoration,
+				this.highlightsHidden ? [] : HighlightController.getDecorationRanges(rule, ranges)
+			);
 			nextRuleIds.add(rule.id);
 			this.logDebug('Applied individual rule to document', {
 				documentUri: uri,
@@ -986,8 +3391,15 @@ class HighlightController {
 	}
 
 	private findMatches(document: vscode.TextDocument, rule: HighlightRule): vscode.Range[] {
+		return this.findMatchResults(document, rule).map((result) => result.range);
+	}
+
+	private findMatchResults(
+		document: vscode.TextDocument,
+		rule: HighlightRule
+	): { range: vscode.Range; match: RegExpExecArray }[] {
 		const regex = this.buildRegExp(rule);
-		const ranges: vscode.Range[] = [];
+		const results: { range: vscode.Range; match: RegExpExecArray }[] = [];
 		const text = document.getText();
 		let match: RegExpExecArray | null;
 
@@ -1003,10 +3415,10 @@ class HighlightController {
 			if (rule.matchWholeWord && !this.isWholeWordMatch(document, range, text)) {
 				continue;
 			}
-			ranges.push(range);
+			results.push({ range, match });
 		}
 
-		return ranges;
+		return results;
 	}
 
 	private static computeSelectionMatchIndex(
@@ -1076,7 +3488,7 @@ class HighlightController {
 	}
 
 	private scheduleScopeScan(rule: HighlightRule) {
-		if (rule.scope === 'document') {
+		if (rule.scope === 'document' || !this.isRuleActive(rule)) {
 			return;
 		}
 		if (this.pendingScopeScans.has(rule.id)) {
@@ -1139,6 +3551,10 @@ class HighlightController {
 				return [vscode.Uri.parse(rule.targetUri)];
 			}
 
+			if (rule.scope === 'workspace' || rule.scope === 'global') {
+				return this.readWorkspaceFiles();
+			}
+
 			const folderUri = vscode.Uri.parse(rule.targetUri);
 			if (rule.scope === 'folder') {
 				return this.readImmediateFiles(folderUri);
@@ -1173,6 +3589,24 @@ class HighlightController {
 		return vscode.workspace.findFiles(pattern, exclude, HighlightController.SCOPE_SCAN_MAX_FILES);
 	}
 
+	private async readWorkspaceFiles(): Promise<vscode.Uri[]> {
+		if (!vscode.workspace.workspaceFolders?.length) {
+			return vscode.workspace.textDocuments
+				.filter((document) => !document.isClosed && document.uri.scheme !== 'output')
+				.map((document) => document.uri);
+		}
+		// Workspace and global rules scanned together (e.g. at startup) share one file search.
+		if (!this.pendingWorkspaceFileSearch) {
+			const exclude = HighlightController.getScopeExcludePattern();
+			this.pendingWorkspaceFileSearch = Promise.resolve(
+				vscode.workspace.findFiles('**/*', exclude, HighlightController.SCOPE_SCAN_MAX_FILES)
+			).finally(() => {
+				this.pendingWorkspaceFileSearch = undefined;
+			});
+		}
+		return this.pendingWorkspaceFileSearch;
+	}
+
 	private async scanRuleInUri(rule: HighlightRule, uri: vscode.Uri): Promise<void> {
 		try {
 			if (!this.isFileIncluded(rule, uri)) {
@@ -1432,8 +3866,43 @@ class HighlightController {
 			  }
 			: null;
 
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+		const workspaceFolderInfo: ScopeInfo | null = workspaceFolder
+			? {
+					scope: 'workspaceFolder',
+					targetUri: workspaceFolder.uri.toString(),
+					key: HighlightController.createScopeKey('workspaceFolder', workspaceFolder.uri.toString()),
+			  }
+			: null;
+
+		const workspaceInfo: ScopeInfo | null = workspaceFolder
+			? {
+					scope: 'workspace',
+					targetUri: HighlightController.WORKSPACE_SCOPE_TARGET,
+					key: HighlightController.createScopeKey('workspace', HighlightController.WORKSPACE_SCOPE_TARGET),
+			  }
+			: null;
+
+		const globalInfo: ScopeInfo = {
+			scope: 'global',
+			targetUri: HighlightController.GLOBAL_SCOPE_TARGET,
+			key: HighlightController.createScopeKey('global', HighlightController.GLOBAL_SCOPE_TARGET),
+		};
+
 		const resolvePreferred = (scope: RuleScope): ScopeInfo => {
 			switch (scope) {
+				case 'global':
+					return globalInfo;
+				case 'workspace':
+					if (workspaceInfo) {
+						return workspaceInfo;
+					}
+					break;
+				case 'workspaceFolder':
+					if (workspaceFolderInfo) {
+						return workspaceFolderInfo;
+					}
+					break;
 				case 'folderRecursive':
 					if (folderRecursiveInfo) {
 						return folderRecursiveInfo;
@@ -1483,6 +3952,26 @@ class HighlightController {
 			});
 		}
 
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+		if (workspaceFolder) {
+			options.push({
+				...this.resolveScopeForDocument(document, 'workspaceFolder'),
+				label: 'Workspace Folder',
+				description: workspaceFolder.name,
+			});
+			options.push({
+				...this.resolveScopeForDocument(document, 'workspace'),
+				label: 'Entire Workspace',
+				description: vscode.workspace.name ?? workspaceFolder.name,
+			});
+		}
+
+		options.push({
+			...this.resolveScopeForDocument(document, 'global'),
+			label: 'Everywhere',
+			description: 'Every file in every window',
+		});
+
 		return options;
 	}
 
@@ -1524,7 +4013,9 @@ class HighlightController {
 		const withRules = options
 			.map((option) => ({
 				option,
-				count: this.rulesByScope.get(option.key)?.length ?? 0,
+				count: (this.rulesByScope.get(option.key) ?? []).filter(
+					(rule) => !HighlightController.isReadOnlyRule(rule) && this.isProfileActive(rule)
+				).length,
 			}))
 			.filter((entry) => entry.count > 0);
 
@@ -1562,10 +4053,16 @@ class HighlightController {
 				keys.push(HighlightController.createScopeKey('folderRecursive', folder.toString()));
 			}
 		}
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+		if (workspaceFolder) {
+			keys.push(HighlightController.createScopeKey('workspaceFolder', workspaceFolder.uri.toString()));
+			keys.push(HighlightController.createScopeKey('workspace', HighlightController.WORKSPACE_SCOPE_TARGET));
+		}
+		keys.push(HighlightController.createScopeKey('global', HighlightController.GLOBAL_SCOPE_TARGET));
 		return keys;
 	}
 
-	private getRulesForUri(uri: vscode.Uri): HighlightRule[] {
+	private getRulesForUri(uri: vscode.Uri, includeDisabled = false): HighlightRule[] {
 		const keys = this.getScopeKeysForUri(uri);
 		const result: HighlightRule[] = [];
 		const countsByKey: Record<string, number> = {};
@@ -1576,7 +4073,10 @@ class HighlightController {
 				result.push(...rules);
 			}
 		}
-		const filtered = result.filter((rule) => this.isFileIncluded(rule, uri));
+		const filtered = result.filter(
+			(rule) =>
+				(includeDisabled ? this.isProfileActive(rule) : this.isRuleActive(rule)) && this.isFileIncluded(rule, uri)
+		);
 		this.logDebug('Resolved rules for URI', {
 			documentUri: uri.toString(),
 			scopeKeys: keys,
@@ -1624,6 +4124,16 @@ class HighlightController {
 		if (scope === 'document') {
 			return document.uri.toString() === targetUri;
 		}
+		if (scope === 'global') {
+			return true;
+		}
+		if (scope === 'workspaceFolder' || scope === 'workspace') {
+			const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+			if (!workspaceFolder) {
+				return false;
+			}
+			return scope === 'workspace' || workspaceFolder.uri.toString() === targetUri;
+		}
 		const folderUri = HighlightController.getContainingFolderUri(document.uri);
 		if (!folderUri) {
 			return false;
@@ -1666,22 +4176,145 @@ class HighlightController {
 		this.documentRuleIds.delete(documentUri);
 	}
 
-	private static createDecoration(color: string): vscode.TextEditorDecorationType {
-		const textColor = HighlightController.getReadableTextColor(color);
+	private static createDecoration(
+		options: Pick<HighlightRule, 'color' | 'style' | 'wholeLine' | 'gutterIcon' | 'lightColor' | 'darkColor'>
+	): vscode.TextEditorDecorationType {
 		return vscode.window.createTextEditorDecorationType({
-			backgroundColor: color,
-			border: `1px solid ${color}`,
-			borderRadius: '2px',
-			color: textColor,
-			overviewRulerColor: color,
+			// The unthemed options double as the fallback for high contrast themes.
+			...HighlightController.createThemedDecoration(options, options.darkColor ?? options.color, 'dark'),
+			isWholeLine: options.wholeLine,
 			overviewRulerLane: vscode.OverviewRulerLane.Right,
+			light: HighlightController.createThemedDecoration(options, options.lightColor ?? options.color, 'light'),
+			dark: HighlightController.createThemedDecoration(options, options.darkColor ?? options.color, 'dark'),
+		});
+	}
+
+	private static createThemedDecoration(
+		options: Pick<HighlightRule, 'style' | 'gutterIcon'>,
+		color: string,
+		theme: ThemeVariant
+	): vscode.ThemableDecorationRenderOptions {
+		const rulerOptions: vscode.ThemableDecorationRenderOptions = { overviewRulerColor: color };
+		// Text-only styles drop the alpha channel so the text stays legible.
+		const textColor = HighlightController.stripAlpha(color);
+		if (options.gutterIcon !== 'none') {
+			rulerOptions.gutterIconPath = HighlightController.createGutterIcon(textColor);
+			rulerOptions.gutterIconSize = 'contain';
+		}
+		if (options.gutterIcon === 'only') {
+			return rulerOptions;
+		}
+		switch (options.style) {
+			case 'foreground':
+				return { ...rulerOptions, color: textColor };
+			case 'underline':
+				return { ...rulerOptions, textDecoration: `underline solid ${textColor}` };
+			case 'underlineWavy':
+				return { ...rulerOptions, textDecoration: `underline wavy ${textColor}` };
+			case 'underlineDotted':
+				return { ...rulerOptions, textDecoration: `underline dotted ${textColor}` };
+			case 'outline':
+				return { ...rulerOptions, border: `1px solid ${textColor}`, borderRadius: '2px' };
+			case 'bold':
+				return { ...rulerOptions, color: textColor, fontWeight: 'bold' };
+			case 'italic':
+				return { ...rulerOptions, color: textColor, fontStyle: 'italic' };
+			case 'strikethrough':
+				return { ...rulerOptions, textDecoration: `line-through ${textColor}` };
+			default:
+				return {
+					...rulerOptions,
+					backgroundColor: color,
+					border: `1px solid ${color}`,
+					borderRadius: '2px',
+					color: HighlightController.getReadableTextColor(color, theme),
+				};
+		}
+	}
+
+	private static getActiveThemeVariant(): ThemeVariant {
+		const kind = vscode.window.activeColorTheme.kind;
+		return kind === vscode.ColorThemeKind.Light || kind === vscode.ColorThemeKind.HighContrastLight ? 'light' : 'dark';
+	}
+
+	private static getThemeColor(rule: HighlightRule, theme: ThemeVariant): string {
+		return (theme === 'light' ? rule.lightColor : rule.darkColor) ?? rule.color;
+	}
+
+	private static createGutterIcon(color: string): vscode.Uri {
+		const fill = HighlightController.escapeHtml(HighlightController.sanitizeCssValue(color));
+		const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16"><circle cx="8" cy="8" r="4.5" fill="${fill}"/></svg>`;
+		return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`);
+	}
+
+	private static getDecorationRanges(rule: HighlightRule, ranges: vscode.Range[]): vscode.Range[] {
+		if (!rule.wholeLine) {
+			return ranges;
+		}
+		// Whole-line decorations only need one range per line; stats keep every match for navigation.
+		const lines = new Set<number>();
+		for (const range of ranges) {
+			for (let line = range.start.line; line <= range.end.line; line += 1) {
+				lines.add(line);
+			}
+		}
+		return [...lines].map((line) => new vscode.Range(line, 0, line, 0));
+	}
+
+	private static stripAlpha(color: string): string {
+		const trimmed = color.trim();
+		if (/^#[0-9a-f]{8}$/i.test(trimmed)) {
+			return trimmed.slice(0, 7);
+		}
+		if (/^#[0-9a-f]{4}$/i.test(trimmed)) {
+			return trimmed.slice(0, 4);
+		}
+		return trimmed;
+	}
+
+	private static createId(): string {
+		return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+	}
+
+	private static expandContextLines(lines: Set<number>, context: number, lineCount: number): number[] {
+		const expanded = new Set<number>();
+		for (const line of lines) {
+			const first = Math.max(0, line - context);
+			const last = Math.min(lineCount - 1, line + context);
+			for (let current = first; current <= last; current += 1) {
+				expanded.add(current);
+			}
+		}
+		return [...expanded].sort((a, b) => a - b);
+	}
+
+	public static expandReplacement(template: string, match: RegExpExecArray): string {
+		// Mirrors String.prototype.replace: $$, $&, $1..$99 and $<name>.
+		return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token: string, reference: string, name?: string) => {
+			if (reference === '$') {
+				return '$';
+			}
+			if (reference === '&') {
+				return match[0];
+			}
+			if (name !== undefined) {
+				return match.groups?.[name] ?? (match.groups ? '' : token);
+			}
+			let index = Number(reference);
+			if (index >= match.length && reference.length === 2) {
+				index = Number(reference[0]);
+				if (index > 0 && index < match.length) {
+					return (match[index] ?? '') + reference[1];
+				}
+				return token;
+			}
+			if (index === 0 || index >= match.length) {
+				return token;
+			}
+			return match[index] ?? '';
 		});
 	}
 
-	private static createId(): string {
-		return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
-	}
-
 	private static escapeForRegExp(value: string): string {
 		return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 	}
@@ -1887,16 +4520,62 @@ class HighlightController {
 		return output;
 	}
 
-	private static getReadableTextColor(color: string): string | undefined {
+	private static getReadableTextColor(color: string, theme?: ThemeVariant): string | undefined {
 		const rgb = HighlightController.parseHexColor(color);
 		if (!rgb) {
 			return undefined;
 		}
 
-		const luminance = (0.299 * rgb.r + 0.587 * rgb.g + 0.114 * rgb.b) / 255;
+		// A translucent highlight mixes with the editor background, so blend it before measuring.
+		const background = theme ? HighlightController.THEME_BACKGROUNDS[theme] : undefined;
+		const blend = (channel: number, base: number) => (background ? channel * rgb.a + base * (1 - rgb.a) : channel);
+		const r = blend(rgb.r, background?.r ?? 0);
+		const g = blend(rgb.g, background?.g ?? 0);
+		const b = blend(rgb.b, background?.b ?? 0);
+		const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
 		return luminance > 0.6 ? '#1f1f1f' : '#ffffff';
 	}
 
+	private static normalizeColorForComparison(color: string): string {
+		let trimmed = color.trim().toLowerCase();
+		if (!trimmed.startsWith('#')) {
+			return trimmed;
+		}
+		if (trimmed.length === 4 || trimmed.length === 5) {
+			trimmed = '#' + trimmed[1] + trimmed[1] + trimmed[2] + trimmed[2] + trimmed[3] + trimmed[3];
+		}
+		return trimmed.slice(0, 7);
+	}
+
+	private static hslToHex(h: number, s: number, l: number): string {
+		s /= 100;
+		l /= 100;
+		const k = (n: number) => (n + h / 30) % 12;
+		const a = s * Math.min(l, 1 - l);
+		const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+		const toHex = (value: number) => Math.round(value * 255).toString(16).padStart(2, '0');
+		return '#' + toHex(f(0)) + toHex(f(8)) + toHex(f(4));
+	}
+
+	/** Picks the next color in the rotation for new rules; `used` holds colors normalized to `#rrggbb`. */
+	private static pickNextColor(used: Set<string>): string {
+		for (const hex of HIGHLIGHT_BASE_COLORS) {
+			if (!used.has(hex)) {
+				return hex + HIGHLIGHT_DEFAULT_ALPHA;
+			}
+		}
+		let index = used.size;
+		while (index < used.size + 1000) {
+			const hue = (index * 137.508) % 360;
+			const hex = HighlightController.hslToHex(hue, 70, 55);
+			if (!used.has(hex)) {
+				return hex + HIGHLIGHT_DEFAULT_ALPHA;
+			}
+			index += 1;
+		}
+		return HIGHLIGHT_BASE_COLORS[0] + HIGHLIGHT_DEFAULT_ALPHA;
+	}
+
 	private logDebug(message: string, data?: Record<string, unknown>) {
 		if (!HighlightController.DEBUG_LOGGING_ENABLED) {
 			return;
@@ -1908,7 +4587,7 @@ class HighlightController {
 		}
 	}
 
-	private static parseHexColor(value: string): { r: number; g: number; b: number } | undefined {
+	public static parseHexColor(value: string): { r: number; g: number; b: number; a: number } | undefined {
 		const trimmed = value.trim();
 		if (!trimmed.startsWith('#')) {
 			return undefined;
@@ -1917,18 +4596,16 @@ class HighlightController {
 		let hex = trimmed.slice(1);
 		if (hex.length === 3 || hex.length === 4) {
 			hex = hex
-				.slice(0, 3)
 				.split('')
 				.map((char) => char + char)
 				.join('');
-		} else if (hex.length === 6 || hex.length === 8) {
-			hex = hex.slice(0, 6);
-		} else {
+		} else if (hex.length !== 6 && hex.length !== 8) {
 			return undefined;
 		}
 
-		const numeric = Number.parseInt(hex, 16);
-		if (Number.isNaN(numeric)) {
+		const numeric = Number.parseInt(hex.slice(0, 6), 16);
+		const alpha = hex.length === 8 ? Number.parseInt(hex.slice(6), 16) : 255;
+		if (Number.isNaN(numeric) || Number.isNaN(alpha)) {
 			return undefined;
 		}
 
@@ -1936,10 +4613,311 @@ class HighlightController {
 			r: (numeric >> 16) & 0xff,
 			g: (numeric >> 8) & 0xff,
 			b: numeric & 0xff,
+			a: alpha / 255,
 		};
 	}
 }
 
+class HighlightStatusBar implements vscode.Disposable {
+	private readonly item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+	private readonly disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly controller: HighlightController) {
+		this.item.name = 'Smart Highlights';
+		this.item.command = 'conditional-coloring.panel.focus';
+		const update = () => this.update();
+		this.disposables.push(
+			this.item,
+			this.controller.onDidChangeRules(update),
+			vscode.window.onDidChangeActiveTextEditor(update)
+		);
+		this.update();
+	}
+
+	dispose() {
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+
+	private update() {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			this.item.hide();
+			return;
+		}
+
+		const summary = this.controller.getDocumentSummary(editor.document);
+		const ruleLabel = `${summary.ruleCount} ${summary.ruleCount === 1 ? 'rule' : 'rules'}`;
+		const matchLabel = `${summary.matchCount} ${summary.matchCount === 1 ? 'match' : 'matches'}`;
+		this.item.text = summary.hidden
+			? `$(eye-closed) ${summary.ruleCount}`
+			: `$(symbol-color) ${summary.ruleCount} / ${summary.matchCount}`;
+		this.item.tooltip = summary.hidden
+			? `Smart Highlights: hidden (${ruleLabel} active). Click to open the panel.`
+			: `Smart Highlights: ${ruleLabel} active, ${matchLabel} in this file. Click to open the panel.`;
+		this.item.show();
+	}
+}
+
+type MatchTreeNode =
+	| { kind: 'rule'; rule: HighlightRule }
+	| { kind: 'file'; rule: HighlightRule; uri: string }
+	| { kind: 'match'; rule: HighlightRule; uri: string; range: vscode.Range };
+
+class MatchesTreeProvider implements vscode.TreeDataProvider<MatchTreeNode>, vscode.Disposable {
+	private static readonly PREVIEW_MAX_LENGTH = 120;
+
+	private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<MatchTreeNode | undefined>();
+	private readonly disposables: vscode.Disposable[] = [];
+	private readonly treeView: vscode.TreeView<MatchTreeNode>;
+	private stale = false;
+	public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+	constructor(private readonly controller: HighlightController) {
+		this.treeView = vscode.window.createTreeView('conditional-coloring.matches', {
+			treeDataProvider: this,
+			showCollapseAll: true,
+		});
+		this.disposables.push(
+			this.onDidChangeTreeDataEmitter,
+			this.treeView,
+			this.controller.onDidChangeRules(() => this.refresh()),
+			this.treeView.onDidChangeVisibility((event) => {
+				if (event.visible && this.stale) {
+					this.refresh();
+				}
+			})
+		);
+	}
+
+	dispose() {
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+
+	getTreeItem(node: MatchTreeNode): vscode.TreeItem {
+		switch (node.kind) {
+			case 'rule': {
+				const total = [...node.rule.statsByDocument.values()].reduce((sum, stats) => sum + stats.matchCount, 0);
+				const item = new vscode.TreeItem(
+					node.rule.name ?? node.rule.pattern,
+					total > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+				);
+				item.id = `rule:${node.rule.id}`;
+				item.description = `${total} ${total === 1 ? 'match' : 'matches'}`;
+				item.tooltip = `${node.rule.pattern} - ${HighlightController.describeScope(node.rule.scope)}`;
+				item.iconPath = new vscode.ThemeIcon('symbol-color');
+				item.contextValue = 'rule';
+				return item;
+			}
+			case 'file': {
+				const uri = vscode.Uri.parse(node.uri);
+				const count = node.rule.statsByDocument.get(node.uri)?.matchCount ?? 0;
+				const item = new vscode.TreeItem(uri, vscode.TreeItemCollapsibleState.Collapsed);
+				item.id = `file:${node.rule.id}:${node.uri}`;
+				item.description = `${path.posix.dirname(vscode.workspace.asRelativePath(uri))} - ${count}`;
+				item.contextValue = 'file';
+				return item;
+			}
+			case 'match': {
+				const document = vscode.workspace.textDocuments.find((candidate) => candidate.uri.toString() === node.uri);
+				const item = new vscode.TreeItem(
+					MatchesTreeProvider.createMatchLabel(node.range, document),
+					vscode.TreeItemCollapsibleState.None
+				);
+				item.id = `match:${node.rule.id}:${node.uri}:${node.range.start.line}:${node.range.start.character}`;
+				item.command = {
+					command: 'vscode.open',
+					title: 'Open Match',
+					arguments: [vscode.Uri.parse(node.uri), { selection: node.range, preview: true }],
+				};
+				item.contextValue = 'match';
+				return item;
+			}
+		}
+	}
+
+	async getChildren(node?: MatchTreeNode): Promise<MatchTreeNode[]> {
+		if (!node) {
+			this.stale = false;
+			return this.controller.getActiveRules().map((rule) => ({ kind: 'rule', rule }));
+		}
+		if (node.kind === 'rule') {
+			return [...node.rule.statsByDocument.keys()]
+				.sort((a, b) => a.localeCompare(b))
+				.map((uri) => ({ kind: 'file', rule: node.rule, uri }));
+		}
+		if (node.kind === 'file') {
+			// Load the document so match previews can show the line text.
+			if (!vscode.workspace.textDocuments.some((document) => document.uri.toString() === node.uri)) {
+				try {
+					await vscode.workspace.openTextDocument(vscode.Uri.parse(node.uri));
+				} catch {
+					// Fall back to position-only labels.
+				}
+			}
+			const ranges = node.rule.statsByDocument.get(node.uri)?.ranges ?? [];
+			return [...ranges]
+				.sort((a, b) => a.start.compareTo(b.start))
+				.map((range) => ({ kind: 'match', rule: node.rule, uri: node.uri, range }));
+		}
+		return [];
+	}
+
+	private refresh() {
+		if (!this.treeView.visible) {
+			this.stale = true;
+			return;
+		}
+		this.onDidChangeTreeDataEmitter.fire(undefined);
+	}
+
+	private static createMatchLabel(range: vscode.Range, document: vscode.TextDocument | undefined): vscode.TreeItemLabel {
+		const prefix = `${range.start.line + 1}: `;
+		if (!document || range.start.line >= document.lineCount) {
+			return { label: `${prefix}column ${range.start.character + 1}` };
+		}
+
+		const text = document.lineAt(range.start.line).text;
+		const indent = text.length - text.trimStart().length;
+		const preview = text.trim().slice(0, MatchesTreeProvider.PREVIEW_MAX_LENGTH);
+		const start = prefix.length + Math.max(0, range.start.character - indent);
+		const end = range.isSingleLine ? prefix.length + range.end.character - indent : prefix.length + preview.length;
+		const label = `${prefix}${preview}`;
+		return { label, highlights: start < label.length ? [[start, Math.min(end, label.length)]] : [] };
+	}
+}
+
+export class MatchingLinesFilter implements vscode.FoldingRangeProvider, vscode.Disposable {
+	// The editor never asks for the ranges when folding providers are disabled, so stop waiting after this.
+	private static readonly RANGE_REQUEST_TIMEOUT_MS = 2000;
+
+	// Start lines of the folded ranges, keyed by filtered document uri.
+	private readonly foldedLinesByUri = new Map<string, number[]>();
+	// Resolved when the editor next asks for a filtered document's ranges.
+	private readonly pendingRangeRequests = new Map<string, () => void>();
+	private readonly onDidChangeFoldingRangesEmitter = new vscode.EventEmitter<void>();
+	private readonly disposables: vscode.Disposable[] = [];
+	public readonly onDidChangeFoldingRanges = this.onDidChangeFoldingRangesEmitter.event;
+
+	constructor(private readonly controller: HighlightController) {
+		this.disposables.push(
+			this.onDidChangeFoldingRangesEmitter,
+			vscode.languages.registerFoldingRangeProvider({ scheme: '*' }, this),
+			this.controller.onDidChangeRules(() => {
+				if (this.foldedLinesByUri.size > 0) {
+					this.onDidChangeFoldingRangesEmitter.fire();
+				}
+			}),
+			vscode.workspace.onDidCloseTextDocument((document) => {
+				const uri = document.uri.toString();
+				this.foldedLinesByUri.delete(uri);
+				this.resolveRangeRequest(uri);
+			})
+		);
+	}
+
+	dispose() {
+		this.disposables.forEach((disposable) => disposable.dispose());
+	}
+
+	provideFoldingRanges(document: vscode.TextDocument): vscode.ProviderResult<vscode.FoldingRange[]> {
+		const uri = document.uri.toString();
+		if (!this.foldedLinesByUri.has(uri)) {
+			// No result lets the editor fall back to its usual indentation or language folding.
+			return undefined;
+		}
+		this.resolveRangeRequest(uri);
+		return MatchingLinesFilter.createFoldingRanges(this.controller.getMatchedLines(document), document.lineCount);
+	}
+
+	private resolveRangeRequest(uri: string) {
+		this.pendingRangeRequests.get(uri)?.();
+		this.pendingRangeRequests.delete(uri);
+	}
+
+	public async toggle() {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			void vscode.window.showErrorMessage('No active editor found.');
+			return;
+		}
+
+		const uri = editor.document.uri.toString();
+		const foldedLines = this.foldedLinesByUri.get(uri);
+		if (foldedLines) {
+			this.foldedLinesByUri.delete(uri);
+			this.resolveRangeRequest(uri);
+			await vscode.commands.executeCommand('editor.unfold', {
+				levels: 1,
+				selectionLines: foldedLines,
+			});
+			this.onDidChangeFoldingRangesEmitter.fire();
+			return;
+		}
+
+		const matchedLines = this.controller.getMatchedLines(editor.document);
+		if (matchedLines.size === 0) {
+			void vscode.window.showInformationMessage('No matching lines exist in the current file.');
+			return;
+		}
+
+		// The fold command waits for the folding model the editor is computing, so it only has to run
+		// after the editor has asked for the new ranges.
+		const rangesRequested = new Promise<boolean>((resolve) => {
+			const timer = setTimeout(() => resolve(false), MatchingLinesFilter.RANGE_REQUEST_TIMEOUT_MS);
+			this.pendingRangeRequests.set(uri, () => {
+				clearTimeout(timer);
+				resolve(true);
+			});
+		});
+		this.foldedLinesByUri.set(uri, []);
+		this.onDidChangeFoldingRangesEmitter.fire();
+		if (!(await rangesRequested)) {
+			this.pendingRangeRequests.delete(uri);
+			this.foldedLinesByUri.delete(uri);
+			this.onDidChangeFoldingRangesEmitter.fire();
+			void vscode.window.showWarningMessage(
+				'Cannot fold non-matching lines because folding providers are disabled. Enable "editor.folding" and set "editor.foldingStrategy" to "auto".'
+			);
+			return;
+		}
+		if (!this.foldedLinesByUri.has(uri)) {
+			return;
+		}
+		const lines = MatchingLinesFilter.createFoldingRanges(
+			this.controller.getMatchedLines(editor.document),
+			editor.document.lineCount
+		).map((range) => range.start);
+		this.foldedLinesByUri.set(uri, lines);
+		await vscode.commands.executeCommand('editor.fold', {
+			levels: 1,
+			selectionLines: lines,
+		});
+	}
+
+	public static createFoldingRanges(matchedLines: Set<number>, lineCount: number): vscode.FoldingRange[] {
+		// A folded range keeps its first line visible, so each block of non-matching lines
+		// hangs off the matching line above it. A leading block can only hide from line 1.
+		const ranges: vscode.FoldingRange[] = [];
+		let blockStart: number | null = null;
+		for (let line = 0; line <= lineCount; line += 1) {
+			const matched = line === lineCount || matchedLines.has(line);
+			if (!matched) {
+				blockStart ??= line;
+				continue;
+			}
+			if (blockStart !== null) {
+				const start = Math.max(0, blockStart - 1);
+				const end = line - 1;
+				if (end > start) {
+					ranges.push(new vscode.FoldingRange(start, end));
+				}
+				blockStart = null;
+			}
+		}
+		return ranges;
+	}
+}
+
 interface PanelMessageBase {
 	type: string;
 }
@@ -1949,8 +4927,14 @@ type PanelMessage =
 	| (PanelMessageBase & { type: 'addRule' })
 	| (PanelMessageBase & { type: 'createRule'; payload: CreateRulePayload })
 	| (PanelMessageBase & { type: 'removeRule'; ruleId: string })
+	| (PanelMessageBase & { type: 'toggleEnabled'; ruleId: string })
+	| (PanelMessageBase & { type: 'goToMatch'; ruleId: string })
+	| (PanelMessageBase & { type: 'selectAllMatches'; ruleId: string; documentUri: string })
+	| (PanelMessageBase & { type: 'replaceMatches'; ruleId: string; documentUri: string })
 	| (PanelMessageBase & { type: 'updatePattern'; ruleId: string; pattern: string })
-	| (PanelMessageBase & { type: 'updateColor'; ruleId: string; color: string })
+	| (PanelMessageBase & { type: 'updateColor'; ruleId: string; darkColor: string; lightColor?: string })
+	| (PanelMessageBase & { type: 'updateStyle'; ruleId: string; style: DecorationStyle })
+	| (PanelMessageBase & { type: 'updateGutterIcon'; ruleId: string; mode: GutterIconMode })
 	| (PanelMessageBase & {
 			type: 'toggleOption';
 			ruleId: string;
@@ -1958,6 +4942,8 @@ type PanelMessage =
 	  })
 	| (PanelMessageBase & { type: 'exportRules' })
 	| (PanelMessageBase & { type: 'importRules'; documentUri: string | null })
+	| (PanelMessageBase & { type: 'selectProfile'; profileId: string | null })
+	| (PanelMessageBase & { type: 'manageProfiles' })
 	| (PanelMessageBase & {
 			type: 'changeScope';
 			ruleId: string;
@@ -2014,11 +5000,29 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				case 'removeRule':
 					this.controller.deleteRule(message.ruleId);
 					break;
+				case 'toggleEnabled':
+					this.controller.toggleRuleEnabled(message.ruleId);
+					break;
+				case 'goToMatch':
+					void this.controller.goToMatch(message.ruleId);
+					break;
+				case 'selectAllMatches':
+					void this.controller.selectAllMatches(message.ruleId, message.documentUri);
+					break;
+				case 'replaceMatches':
+					void this.controller.replaceMatches(message.ruleId, message.documentUri);
+					break;
 				case 'updatePattern':
 					this.controller.updateRulePattern(message.ruleId, message.pattern);
 					break;
 				case 'updateColor':
-					this.controller.updateRuleColor(message.ruleId, message.color);
+					this.controller.updateRuleColor(message.ruleId, message.darkColor, message.lightColor);
+					break;
+				case 'updateStyle':
+					this.controller.updateRuleStyle(message.ruleId, message.style);
+					break;
+				case 'updateGutterIcon':
+					this.controller.updateRuleGutterIcon(message.ruleId, message.mode);
 					break;
 				case 'toggleOption':
 					this.controller.toggleRuleOption(message.ruleId, message.option);
@@ -2029,6 +5033,12 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				case 'importRules':
 					void this.controller.importRules(message.documentUri);
 					break;
+				case 'selectProfile':
+					this.controller.selectProfile(message.profileId);
+					break;
+				case 'manageProfiles':
+					void this.controller.manageProfiles();
+					break;
 				case 'changeScope':
 					void this.controller.changeRuleScope(message.ruleId, message.scope, message.documentUri);
 					break;
@@ -2059,6 +5069,9 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			activeUri: uri,
 			scopeOptions: scopeData.options,
 			defaultScope: scopeData.defaultScope,
+			profiles: this.controller.getProfileSnapshots(),
+			currentProfileId: this.controller.getCurrentProfileId(),
+			nextColor: uri ? this.controller.getNextRuleColor(vscode.Uri.parse(uri)) : null,
 		});
 	}
 
@@ -2129,6 +5142,25 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			cursor: not-allowed;
 		}
 
+		.profile-row {
+			display: flex;
+			align-items: center;
+			gap: 6px;
+			padding: 6px 8px 0;
+		}
+
+		.profile-row select,
+		.style-select {
+			flex: 1;
+			min-width: 0;
+			padding: 2px 4px;
+			border-radius: 3px;
+			border: 1px solid var(--vscode-dropdown-border, var(--vscode-input-border, transparent));
+			background: var(--vscode-dropdown-background, var(--vscode-input-background));
+			color: var(--vscode-dropdown-foreground, var(--vscode-input-foreground));
+			font-size: 12px;
+		}
+
 		.new-rule {
 			display: flex;
 			flex-direction: column;
@@ -2165,6 +5197,12 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			flex-shrink: 0;
 		}
 
+		.style-select {
+			flex: 0 1 auto;
+			max-width: 120px;
+			height: 24px;
+		}
+
 		.options-toggle-row .option-buttons,
 		.rule-options {
 			display: flex;
@@ -2294,7 +5332,7 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 
 		.rule-primary-row {
 			display: grid;
-			grid-template-columns: 1fr auto auto;
+			grid-template-columns: 1fr auto auto auto;
 			align-items: center;
 			gap: 6px;
 			width: 100%;
@@ -2305,6 +5343,16 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			gap: 4px;
 		}
 
+		.enable-toggle {
+			width: 24px;
+			padding: 2px 0;
+		}
+
+		.rule-row.disabled .pattern-button,
+		.rule-row.disabled .rule-secondary-row {
+			opacity: 0.5;
+		}
+
 		.pattern-button {
 			text-align: left;
 			padding: 4px 6px;
@@ -2360,6 +5408,7 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 		}
 
 		.match-count.has-matches {
+			cursor: pointer;
 			color: var(--vscode-foreground);
 			border-color: var(--vscode-focusBorder, var(--vscode-input-border));
 		}
@@ -2374,6 +5423,22 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			opacity: 0.6;
 		}
 
+		.rule-row.read-only .rule-options button:disabled,
+		.rule-row.read-only .color-button:disabled,
+		.rule-row.read-only .pattern-button:disabled {
+			opacity: 1;
+			cursor: default;
+		}
+
+		.source-badge {
+			font-size: 10px;
+			padding: 1px 6px;
+			border-radius: 999px;
+			border: 1px solid var(--vscode-input-border, var(--vscode-focusBorder));
+			color: var(--vscode-descriptionForeground);
+			white-space: nowrap;
+		}
+
 		.color-swatch {
 			width: 18px;
 			height: 14px;
@@ -2420,6 +5485,11 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			gap: 8px;
 		}
 
+		.color-overlay-body label {
+			font-size: 11px;
+			opacity: 0.8;
+		}
+
 		.color-overlay-body input[type="color"] {
 			width: 60px;
 			height: 34px;
@@ -2459,6 +5529,10 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				<button type="button" id="importRulesButton" class="header-button" title="Import highlight rules">Import</button>
 			</div>
 		</div>
+		<div class="profile-row">
+			<select id="profileSelect" title="Profile that new highlights are added to"></select>
+			<button type="button" id="manageProfilesButton" title="Activate, deactivate, rename, duplicate, or delete profiles">Profiles...</button>
+		</div>
 		<div id="newRuleForm" class="new-rule">
 			<input id="patternInput" type="text" placeholder="Highlight text or /regex/">
 		<div class="form-options-row">
@@ -2467,10 +5541,12 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 					<button type="button" class="option-toggle" data-option="matchCase" title="Match Case (Aa)">Aa</button>
 					<button type="button" class="option-toggle" data-option="matchWholeWord" title="Match Whole Word (W)">W</button>
 					<button type="button" class="option-toggle" data-option="useRegex" title="Use Regular Expression (.*)">.*</button>
+					<button type="button" class="option-toggle" data-option="wholeLine" title="Highlight Whole Line (≡)">≡</button>
 					<button type="button" class="option-toggle scope-toggle-button" id="scopeToggleButton" title="Open a file to choose scope">Scope</button>
 				</div>
 			</div>
 			<div class="color-row">
+				<select id="styleSelect" class="style-select" title="Decoration style"></select>
 				<input type="color" id="colorPicker" value="#00c400" aria-label="Highlight color">
 				<input type="text" id="colorText" class="color-text-hidden" value="#00c4005d" tabindex="-1" aria-hidden="true">
 			</div>
@@ -2483,8 +5559,12 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 		<div id="colorOverlay" class="color-overlay hidden" role="dialog" aria-modal="true">
 			<div class="color-overlay-content">
 				<div class="color-overlay-body">
+					<label for="inlineColorText">Dark themes</label>
 					<input type="color" id="inlineColorPicker" value="#00c4ff">
 					<input type="text" id="inlineColorText" placeholder="CSS color (e.g. #00c4ff80)">
+					<label for="inlineLightColorText">Light themes</label>
+					<input type="color" id="inlineLightColorPicker" value="#00c4ff">
+					<input type="text" id="inlineLightColorText" placeholder="Same as dark themes">
 				</div>
 				<div class="color-overlay-actions">
 					<button type="button" id="colorOverlayCancel">Cancel</button>
@@ -2499,22 +5579,29 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 		const state = {
 			rules: [],
 			activeUri: null,
-			formOptions: { matchCase: false, matchWholeWord: false, useRegex: false },
+			formOptions: { matchCase: false, matchWholeWord: false, useRegex: false, wholeLine: false },
+			formStyle: 'background',
+			nextColor: null,
 			suggestedColor: null,
 			lastAppliedSuggestion: null,
 			scopeOptions: [],
 			selectedScope: null,
 			fileFilter: '*.*',
+			profiles: [],
+			currentProfileId: null,
 		};
 		const listEl = document.getElementById('ruleList');
 		const patternInput = document.getElementById('patternInput');
 		const colorPicker = document.getElementById('colorPicker');
 		const colorText = document.getElementById('colorText');
+		const styleSelect = document.getElementById('styleSelect');
 		const optionButtons = Array.from(document.querySelectorAll('#newRuleOptions .option-toggle')).filter(
 			(button) => button instanceof HTMLElement && button.dataset.option
 		);
 		const exportRulesButton = document.getElementById('exportRulesButton');
 		const importRulesButton = document.getElementById('importRulesButton');
+		const profileSelect = document.getElementById('profileSelect');
+		const manageProfilesButton = document.getElementById('manageProfilesButton');
 		const scopeButton = document.getElementById('scopeToggleButton');
 		const fileFilterInput = document.getElementById('fileFilterInput');
 		const fileFilterRow = document.getElementById('fileFilterRow');
@@ -2523,6 +5610,8 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 		const colorOverlay = document.getElementById('colorOverlay');
 		const inlineColorPicker = document.getElementById('inlineColorPicker');
 		const inlineColorText = document.getElementById('inlineColorText');
+		const inlineLightColorPicker = document.getElementById('inlineLightColorPicker');
+		const inlineLightColorText = document.getElementById('inlineLightColorText');
 		const colorOverlayApply = document.getElementById('colorOverlayApply');
 		const colorOverlayCancel = document.getElementById('colorOverlayCancel');
 		let colorEditorState = null;
@@ -2535,14 +5624,24 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			{ key: 'matchCase', label: 'Aa', title: 'Match Case' },
 			{ key: 'matchWholeWord', label: 'W', title: 'Match Whole Word' },
 			{ key: 'useRegex', label: '.*', title: 'Use Regular Expression' },
+			{ key: 'wholeLine', label: '≡', title: 'Highlight Whole Line' },
 		];
 		const SCOPE_META = [
 			{ scope: 'document', label: 'F', title: 'Current file only (F)' },
 			{ scope: 'folder', label: 'D', title: 'Current folder only (D)' },
 			{ scope: 'folderRecursive', label: 'D+', title: 'Folder and subfolders (D+)' },
+			{ scope: 'workspaceFolder', label: 'WF', title: 'Workspace folder (WF)' },
+			{ scope: 'workspace', label: 'WS', title: 'Entire workspace (WS)' },
+			{ scope: 'global', label: 'G', title: 'Every file in every window (G)' },
 		];
-		const BASE_COLORS = ['#00c4ff', '#ffd400', '#8ac926', '#ff595e', '#6a4c93', '#1982c4', '#ff924c', '#fb5607'];
-		const DEFAULT_ALPHA = '80';
+		const STYLE_LABELS = ${JSON.stringify(DECORATION_STYLE_LABELS)};
+		const GUTTER_META = [
+			{ mode: 'none', label: '○', title: 'No gutter icon (click to add one)' },
+			{ mode: 'alongside', label: '◐', title: 'Gutter icon and inline highlight (click for gutter only)' },
+			{ mode: 'only', label: '●', title: 'Gutter icon only (click to remove it)' },
+		];
+		const BASE_COLORS = ${JSON.stringify(HIGHLIGHT_BASE_COLORS)};
+		const DEFAULT_ALPHA = '${HIGHLIGHT_DEFAULT_ALPHA}';
 
 		setFormEnabled(false);
 		updateScopeButtonState();
@@ -2565,6 +5664,17 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			vscode.postMessage({ type: 'importRules', documentUri: state.activeUri });
 		});
 
+		profileSelect?.addEventListener('change', () => {
+			if (!(profileSelect instanceof HTMLSelectElement)) {
+				return;
+			}
+			vscode.postMessage({ type: 'selectProfile', profileId: profileSelect.value || null });
+		});
+
+		manageProfilesButton?.addEventListener('click', () => {
+			vscode.postMessage({ type: 'manageProfiles' });
+		});
+
 		if (scopeButton instanceof HTMLButtonElement) {
 			scopeButton.addEventListener('click', () => {
 				if (scopeButton.disabled) {
@@ -2632,7 +5742,7 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 		}
 
 		function shouldShowFileFilter(scope) {
-			return scope === 'folder' || scope === 'folderRecursive';
+			return !!scope && scope !== 'document';
 		}
 
 		function updateFileFilterVisibility() {
@@ -2704,6 +5814,26 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			}
 		}
 
+		function renderProfiles() {
+			if (!(profileSelect instanceof HTMLSelectElement)) {
+				return;
+			}
+			profileSelect.innerHTML = '';
+			const noneOption = document.createElement('option');
+			noneOption.value = '';
+			noneOption.textContent = 'No profile';
+			profileSelect.appendChild(noneOption);
+			state.profiles.forEach((profile) => {
+				const option = document.createElement('option');
+				option.value = profile.id;
+				option.textContent =
+					(profile.active ? '● ' : '○ ') + profile.name + ' (' + profile.ruleCount + ')';
+				option.title = profile.active ? 'Active' : 'Inactive - its highlights are hidden';
+				profileSelect.appendChild(option);
+			});
+			profileSelect.value = state.currentProfileId || '';
+		}
+
 		function cycleRuleScope(row) {
 			if (!row) {
 				return;
@@ -2749,9 +5879,16 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				row.className = 'rule-row';
 				row.dataset.ruleId = rule.id;
 				row.dataset.uri = rule.documentUri;
-				row.dataset.color = rule.color;
+				row.dataset.color = rule.themeColor;
+				row.dataset.darkColor = rule.darkColor;
+				row.dataset.lightColor = rule.lightColor;
+				row.dataset.style = rule.style;
+				row.dataset.gutterIcon = rule.gutterIcon;
 				row.dataset.scope = rule.scope;
 				row.dataset.targetUri = rule.targetUri;
+				row.dataset.readOnly = rule.readOnly ? 'true' : 'false';
+				row.classList.toggle('read-only', !!rule.readOnly);
+				row.classList.toggle('disabled', !rule.enabled);
 
 				const main = document.createElement('div');
 				main.className = 'rule-main';
@@ -2762,11 +5899,23 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				patternButton.type = 'button';
 				patternButton.className = 'pattern-button';
 				patternButton.textContent = rule.pattern;
-				patternButton.title = 'Click to edit the search text';
+				patternButton.title = rule.readOnly ? getSourceTitle(rule.source) : 'Click to edit the search text';
+				if (rule.name) {
+					patternButton.title = rule.name + ' - ' + patternButton.title;
+				}
+				patternButton.disabled = !!rule.readOnly;
 				patternButton.dataset.role = 'pattern';
-				setPatternAppearance(patternButton, rule.color);
+				setPatternAppearance(patternButton, rule.themeColor, rule.style);
 				primaryRow.appendChild(patternButton);
 
+				const enableToggle = document.createElement('button');
+				enableToggle.type = 'button';
+				enableToggle.className = 'enable-toggle';
+				enableToggle.textContent = rule.enabled ? '●' : '○';
+				enableToggle.title = rule.enabled ? 'Disable highlight (keeps the rule)' : 'Enable highlight';
+				enableToggle.disabled = !!rule.readOnly;
+				primaryRow.appendChild(enableToggle);
+
 				const nav = document.createElement('div');
 				nav.className = 'nav-buttons';
 				const prev = document.createElement('button');
@@ -2777,23 +5926,50 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				next.textContent = '▼';
 				next.title = 'Next match';
 				next.className = 'nav-next';
+				const selectAll = document.createElement('button');
+				selectAll.textContent = '⋮';
+				selectAll.title = 'Select all matches in this file (multi-cursor)';
+				selectAll.className = 'select-all';
+				prev.disabled = !rule.enabled;
+				next.disabled = !rule.enabled;
+				selectAll.disabled = !rule.enabled || !rule.documentMatchCount;
+				const replace = document.createElement('button');
+				replace.textContent = '⇄';
+				replace.title = 'Replace matches...';
+				replace.className = 'replace-matches';
+				replace.disabled = !rule.enabled || !rule.matchCount;
 				nav.appendChild(prev);
 				nav.appendChild(next);
+				nav.appendChild(selectAll);
+				nav.appendChild(replace);
 				primaryRow.appendChild(nav);
 
-				const removeButton = document.createElement('button');
-				removeButton.textContent = '✕';
-				removeButton.title = 'Remove highlight';
-				removeButton.className = 'remove-rule';
-				primaryRow.appendChild(removeButton);
+				if (rule.readOnly) {
+					const sourceBadge = document.createElement('span');
+					sourceBadge.className = 'source-badge';
+					sourceBadge.textContent = getSourceLabel(rule.source);
+					sourceBadge.title = getSourceTitle(rule.source);
+					primaryRow.appendChild(sourceBadge);
+				} else {
+					const removeButton = document.createElement('button');
+					removeButton.textContent = '✕';
+					removeButton.title = 'Remove highlight';
+					removeButton.className = 'remove-rule';
+					primaryRow.appendChild(removeButton);
+				}
 
 				const colorButton = document.createElement('button');
 				colorButton.className = 'color-button';
-				colorButton.title = 'Change highlight color';
+				colorButton.title = rule.readOnly
+					? rule.darkColor === rule.lightColor
+						? rule.color
+						: 'Dark: ' + rule.darkColor + ' / Light: ' + rule.lightColor
+					: 'Change highlight colors';
+				colorButton.disabled = !!rule.readOnly;
 				colorButton.dataset.role = 'color';
 				const swatch = document.createElement('span');
 				swatch.className = 'color-swatch';
-				swatch.style.background = rule.color;
+				swatch.style.background = rule.themeColor;
 				colorButton.appendChild(swatch);
 
 				const secondRow = document.createElement('div');
@@ -2810,6 +5986,7 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 					button.dataset.option = meta.key;
 					button.textContent = meta.label;
 					button.title = meta.title;
+					button.disabled = !!rule.readOnly;
 					optionRow.appendChild(button);
 				});
 				const scopeToggleButton = document.createElement('button');
@@ -2817,7 +5994,25 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				scopeToggleButton.className = 'option-toggle scope-toggle-button';
 				scopeToggleButton.dataset.role = 'scope';
 				setScopeButtonAppearance(scopeToggleButton, rule.scope);
+				scopeToggleButton.disabled = !!rule.readOnly;
 				optionRow.appendChild(scopeToggleButton);
+				const gutterMeta = GUTTER_META.find((meta) => meta.mode === rule.gutterIcon) || GUTTER_META[0];
+				const gutterButton = document.createElement('button');
+				gutterButton.type = 'button';
+				gutterButton.className = 'option-toggle gutter-toggle';
+				gutterButton.classList.toggle('active', rule.gutterIcon !== 'none');
+				gutterButton.dataset.role = 'gutter';
+				gutterButton.textContent = gutterMeta.label;
+				gutterButton.title = gutterMeta.title;
+				gutterButton.style.color = rule.gutterIcon !== 'none' ? rule.themeColor : '';
+				gutterButton.disabled = !!rule.readOnly;
+				optionRow.appendChild(gutterButton);
+				const styleSelectEl = document.createElement('select');
+				styleSelectEl.className = 'style-select';
+				styleSelectEl.title = 'Decoration style';
+				styleSelectEl.disabled = !!rule.readOnly;
+				fillStyleOptions(styleSelectEl, rule.style);
+				optionRow.appendChild(styleSelectEl);
 				secondRow.appendChild(optionRow);
 				secondRow.appendChild(colorButton);
 
@@ -2840,14 +6035,67 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			});
 		}
 
-		function setPatternAppearance(element, color) {
+		function getSourceLabel(source) {
+			switch (source) {
+				case 'settings':
+					return 'settings';
+				case 'projectFile':
+					return 'project';
+				default:
+					return '';
+			}
+		}
+
+		function getSourceTitle(source) {
+			switch (source) {
+				case 'settings':
+					return 'Defined in settings.json (smartHighlights.rules); edit the setting to change it';
+				case 'projectFile':
+					return 'Defined in .vscode/smart-highlights.json; edit the file to change it';
+				default:
+					return '';
+			}
+		}
+
+		function fillStyleOptions(select, selected) {
+			select.innerHTML = '';
+			Object.keys(STYLE_LABELS).forEach((style) => {
+				const option = document.createElement('option');
+				option.value = style;
+				option.textContent = STYLE_LABELS[style];
+				option.selected = style === selected;
+				select.appendChild(option);
+			});
+		}
+
+		function setPatternAppearance(element, color, style) {
 			if (!(element instanceof HTMLElement)) {
 				return;
 			}
-			element.style.background = color;
-			element.style.borderColor = color;
-			const contrast = getContrastColor(color);
-			element.style.color = contrast || '';
+			element.style.textDecoration = '';
+			element.style.fontWeight = '';
+			element.style.fontStyle = '';
+			if (!style || style === 'background') {
+				element.style.background = color;
+				element.style.borderColor = color;
+				const contrast = getContrastColor(color);
+				element.style.color = contrast || '';
+				return;
+			}
+
+			element.style.background = 'transparent';
+			element.style.borderColor = style === 'outline' ? color : 'transparent';
+			element.style.color = style === 'foreground' || style === 'bold' || style === 'italic' ? color : '';
+			if (style === 'underline' || style === 'underlineWavy' || style === 'underlineDotted') {
+				const line = style === 'underlineWavy' ? 'wavy' : style === 'underlineDotted' ? 'dotted' : 'solid';
+				element.style.textDecoration = 'underline ' + line + ' ' + color;
+			} else if (style === 'strikethrough') {
+				element.style.textDecoration = 'line-through ' + color;
+			} else if (style === 'bold') {
+				element.style.fontWeight = 'bold';
+			} else if (style === 'italic') {
+				element.style.fontStyle = 'italic';
+			}
 		}
 
 		function updateMatchBadge(element, total, currentIndex, documentCount, documentIndex) {
@@ -2878,6 +6126,9 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			} else {
 				title += ' - none in this file';
 			}
+			if (totalCount > 0) {
+				title += ' - click to list all matches';
+			}
 			element.title = title;
 
 			element.classList.toggle('has-matches', totalCount > 0);
@@ -3048,7 +6299,7 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 
 			closeColorOverlay(false);
 
-			const currentColor = row.dataset.color || '';
+			const currentColor = row.dataset.darkColor || row.dataset.color || '';
 			const pickerValue = pickerValueFromColor(currentColor);
 			const alphaSuffix = extractAlphaSuffix(currentColor) ?? DEFAULT_ALPHA;
 
@@ -3058,7 +6309,16 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				inlineColorText.setSelectionRange(0, inlineColorText.value.length);
 			}
 
-			colorEditorState = { ruleId, row, alphaSuffix };
+			const lightColor = row.dataset.lightColor || '';
+			const lightAlphaSuffix = extractAlphaSuffix(lightColor) ?? alphaSuffix;
+			if (inlineLightColorPicker instanceof HTMLInputElement) {
+				inlineLightColorPicker.value = pickerValueFromColor(lightColor || currentColor);
+			}
+			if (inlineLightColorText instanceof HTMLInputElement) {
+				inlineLightColorText.value = lightColor && lightColor !== currentColor ? lightColor : '';
+			}
+
+			colorEditorState = { ruleId, row, alphaSuffix, lightAlphaSuffix };
 			colorOverlay.classList.remove('hidden');
 			(inlineColorText.value ? inlineColorText : inlineColorPicker).focus();
 		}
@@ -3075,6 +6335,7 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			colorEditorState = null;
 
 			let nextColor = '';
+			let nextLightColor = '';
 			if (commit) {
 				if (inlineColorText instanceof HTMLInputElement) {
 					nextColor = inlineColorText.value.trim();
@@ -3082,11 +6343,17 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				if (!nextColor && inlineColorPicker instanceof HTMLInputElement) {
 					nextColor = inlineColorPicker.value + (alphaSuffix || DEFAULT_ALPHA);
 				}
+				if (inlineLightColorText instanceof HTMLInputElement) {
+					nextLightColor = inlineLightColorText.value.trim();
+				}
 			}
 
 			if (inlineColorText instanceof HTMLInputElement) {
 				inlineColorText.value = '';
 			}
+			if (inlineLightColorText instanceof HTMLInputElement) {
+				inlineLightColorText.value = '';
+			}
 
 			colorOverlay.classList.add('hidden');
 
@@ -3094,15 +6361,20 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				return;
 			}
 
-			vscode.postMessage({ type: 'updateColor', ruleId, color: nextColor });
-			row.dataset.color = nextColor;
+			vscode.postMessage({ type: 'updateColor', ruleId, darkColor: nextColor, lightColor: nextLightColor || undefined });
+			const previewColor = (document.body.classList.contains('vscode-light') ||
+				document.body.classList.contains('vscode-high-contrast-light')) &&
+				nextLightColor ? nextLightColor : nextColor;
+			row.dataset.color = previewColor;
+			row.dataset.darkColor = nextColor;
+			row.dataset.lightColor = nextLightColor || nextColor;
 			const patternButton = row.querySelector('.pattern-button');
 			if (patternButton instanceof HTMLElement) {
-				setPatternAppearance(patternButton, nextColor);
+				setPatternAppearance(patternButton, previewColor, row.dataset.style);
 			}
 			const swatchEl = row.querySelector('.color-swatch');
 			if (swatchEl instanceof HTMLElement) {
-				swatchEl.style.background = nextColor;
+				swatchEl.style.background = previewColor;
 			}
 		}
 
@@ -3129,6 +6401,30 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				return;
 			}
 
+			if (target?.closest('.replace-matches')) {
+				vscode.postMessage({ type: 'replaceMatches', ruleId, documentUri: uri });
+				return;
+			}
+
+			if (target?.closest('.select-all')) {
+				vscode.postMessage({ type: 'selectAllMatches', ruleId, documentUri: uri });
+				return;
+			}
+
+			if (target?.closest('.match-count.has-matches')) {
+				vscode.postMessage({ type: 'goToMatch', ruleId });
+				return;
+			}
+
+			if (row.dataset.readOnly === 'true') {
+				return;
+			}
+
+			if (target?.closest('.enable-toggle')) {
+				vscode.postMessage({ type: 'toggleEnabled', ruleId });
+				return;
+			}
+
 			if (target?.closest('.remove-rule')) {
 				vscode.postMessage({ type: 'removeRule', ruleId });
 				return;
@@ -3143,6 +6439,10 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			if (optionButton) {
 				if (optionButton.dataset.role === 'scope') {
 					cycleRuleScope(row);
+				} else if (optionButton.dataset.role === 'gutter') {
+					const index = GUTTER_META.findIndex((meta) => meta.mode === row.dataset.gutterIcon);
+					const nextMode = GUTTER_META[(index + 1) % GUTTER_META.length].mode;
+					vscode.postMessage({ type: 'updateGutterIcon', ruleId, mode: nextMode });
 				} else {
 					const optionKey = optionButton.dataset.option;
 					if (optionKey) {
@@ -3157,6 +6457,22 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			}
 		});
 
+		listEl?.addEventListener('change', (event) => {
+			const target = event.target;
+			if (!(target instanceof HTMLSelectElement) || !target.classList.contains('style-select')) {
+				return;
+			}
+			const row = target.closest('.rule-row');
+			const ruleId = row?.dataset.ruleId;
+			if (!ruleId || row.dataset.readOnly === 'true') {
+				return;
+			}
+			row.dataset.style = target.value;
+			const patternButton = row.querySelector('.pattern-button');
+			setPatternAppearance(patternButton, row.dataset.color || '', target.value);
+			vscode.postMessage({ type: 'updateStyle', ruleId, style: target.value });
+		});
+
 		colorOverlayApply?.addEventListener('click', () => closeColorOverlay(true));
 		colorOverlayCancel?.addEventListener('click', () => closeColorOverlay(false));
 
@@ -3184,6 +6500,24 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			inlineColorText.value = inlineColorPicker.value + alpha;
 		});
 
+		inlineLightColorPicker?.addEventListener('input', () => {
+			if (
+				!(inlineLightColorPicker instanceof HTMLInputElement) ||
+				!(inlineLightColorText instanceof HTMLInputElement)
+			) {
+				return;
+			}
+			const alpha = colorEditorState?.lightAlphaSuffix ?? DEFAULT_ALPHA;
+			inlineLightColorText.value = inlineLightColorPicker.value + alpha;
+		});
+
+		inlineLightColorText?.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter' && !event.isComposing) {
+				event.preventDefault();
+				closeColorOverlay(true);
+			}
+		});
+
 		inlineColorText?.addEventListener('keydown', (event) => {
 			if (event.key === 'Enter' && !event.isComposing) {
 				event.preventDefault();
@@ -3216,7 +6550,7 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				state.lastAppliedSuggestion = null;
 				return;
 			}
-			updateSuggestedColor([], true);
+			updateSuggestedColor(true);
 			patternInput?.focus();
 		}
 
@@ -3226,67 +6560,13 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			}
 		}
 
-		function normalizeColorForComparison(color) {
-			if (!color) {
-				return '';
-			}
-			let trimmed = color.trim().toLowerCase();
-			if (!trimmed.startsWith('#')) {
-				return trimmed;
-			}
-				if (trimmed.length === 4) {
-					trimmed =
-						'#' +
-						trimmed[1] +
-						trimmed[1] +
-						trimmed[2] +
-						trimmed[2] +
-						trimmed[3] +
-						trimmed[3];
-			}
-			if (trimmed.length === 9) {
-				return trimmed.slice(0, 7);
-			}
-			return trimmed.slice(0, 7);
-		}
-
-		function hslToHex(h, s, l) {
-			s /= 100;
-			l /= 100;
-			const k = (n) => (n + h / 30) % 12;
-			const a = s * Math.min(l, 1 - l);
-			const f = (n) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
-			const toHex = (value) => Math.round(value * 255).toString(16).padStart(2, '0');
-			return '#' + toHex(f(0)) + toHex(f(8)) + toHex(f(4));
-		}
-
-		function pickColor(used) {
-			for (const hex of BASE_COLORS) {
-				if (!used.has(hex)) {
-					return { picker: hex, text: hex + DEFAULT_ALPHA };
-				}
-			}
-			let index = used.size;
-			while (index < used.size + 1000) {
-				const hue = (index * 137.508) % 360;
-				const hex = hslToHex(hue, 70, 55);
-				if (!used.has(hex)) {
-					return { picker: hex, text: hex + DEFAULT_ALPHA };
-				}
-				index += 1;
-			}
-			return { picker: '#00c4ff', text: '#00c4ff' + DEFAULT_ALPHA };
-		}
-
-		function updateSuggestedColor(extraColors = [], force = false) {
-			if (!state.activeUri) {
+		function updateSuggestedColor(force = false) {
+			if (!state.activeUri || !state.nextColor) {
 				state.suggestedColor = null;
 				state.lastAppliedSuggestion = null;
 				return;
 			}
-			const used = new Set(state.rules.map((rule) => normalizeColorForComparison(rule.color)));
-			extraColors.forEach((color) => used.add(normalizeColorForComparison(color)));
-			state.suggestedColor = pickColor(used);
+			state.suggestedColor = { picker: state.nextColor.slice(0, 7), text: state.nextColor };
 			applySuggestedColor(force || !colorText?.value.trim());
 		}
 
@@ -3329,14 +6609,15 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 					matchCase: options.matchCase,
 					matchWholeWord: options.matchWholeWord,
 					useRegex: options.useRegex,
+					wholeLine: options.wholeLine,
 					scope: state.selectedScope || state.scopeOptions[0]?.scope || 'document',
 					documentUri: state.activeUri,
 					fileFilter: shouldUseFileFilter && filterValue ? filterValue : undefined,
+					style: state.formStyle,
 				},
 			});
 			state.lastAppliedSuggestion = colorValue.toLowerCase();
 			resetFormFields();
-			updateSuggestedColor([colorValue], true);
 			patternInput.focus();
 		}
 
@@ -3347,6 +6628,13 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 			}
 		});
 
+		if (styleSelect instanceof HTMLSelectElement) {
+			fillStyleOptions(styleSelect, state.formStyle);
+			styleSelect.addEventListener('change', () => {
+				state.formStyle = styleSelect.value;
+			});
+		}
+
 		optionButtons.forEach((button) => {
 			button.addEventListener('click', () => {
 				if (button.disabled) {
@@ -3385,6 +6673,10 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 					state.activeUri = message.activeUri || null;
 					updateHeaderButtons();
 					updateScopeOptions(message.scopeOptions || [], message.defaultScope || null);
+					state.profiles = Array.isArray(message.profiles) ? message.profiles : [];
+					state.currentProfileId = message.currentProfileId || null;
+					state.nextColor = message.nextColor || null;
+					renderProfiles();
 					if (!state.activeUri) {
 						setFormEnabled(false);
 						resetFormFields();
@@ -3396,7 +6688,6 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 				}
 			});
 
-			updateSuggestedColor([], true);
 			vscode.postMessage({ type: 'requestData' });
 	</script>
 </body>
@@ -3410,12 +6701,49 @@ class HighlightPanelProvider implements vscode.WebviewViewProvider {
 
 export function activate(context: vscode.ExtensionContext) {
 	const controller = new HighlightController(context);
+	const matchingLinesFilter = new MatchingLinesFilter(controller);
 
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider(
 			'conditional-coloring.panel',
 			new HighlightPanelProvider(controller, context.extensionUri)
-		)
+		),
+		vscode.commands.registerCommand('conditional-coloring.addHighlightRule', () => controller.addHighlightRule()),
+		vscode.commands.registerCommand('conditional-coloring.removeHighlightRule', () => controller.removeHighlightRule()),
+		vscode.commands.registerCommand('conditional-coloring.toggleHighlightAtCursor', () =>
+			controller.toggleHighlightAtCursor()
+		),
+		vscode.commands.registerCommand('conditional-coloring.clearHighlights', () => controller.clearHighlights()),
+		vscode.commands.registerCommand('conditional-coloring.toggleHighlightsHidden', () =>
+			controller.toggleHighlightsHidden()
+		),
+		new HighlightStatusBar(controller),
+		matchingLinesFilter,
+		new MatchesTreeProvider(controller),
+		vscode.commands.registerCommand('conditional-coloring.toggleMatchingLinesFilter', () =>
+			matchingLinesFilter.toggle()
+		),
+		vscode.commands.registerCommand('conditional-coloring.exportRules', () => controller.exportRules()),
+		vscode.commands.registerCommand('conditional-coloring.importRules', () => controller.importRules()),
+		vscode.commands.registerCommand('conditional-coloring.nextMatch', () => controller.navigateWithPicker('next')),
+		vscode.commands.registerCommand('conditional-coloring.previousMatch', () =>
+			controller.navigateWithPicker('previous')
+		),
+		vscode.commands.registerCommand('conditional-coloring.goToMatch', () => controller.goToMatch()),
+		vscode.commands.registerCommand('conditional-coloring.selectAllMatches', () => controller.selectAllMatches()),
+		vscode.commands.registerCommand('conditional-coloring.replaceMatches', () => controller.replaceMatches()),
+		vscode.commands.registerCommand('conditional-coloring.extractMatchingLines', () =>
+			controller.extractMatchingLines()
+		),
+		vscode.commands.registerCommand('conditional-coloring.createProfile', () => controller.createProfile()),
+		vscode.commands.registerCommand('conditional-coloring.activateProfile', () => controller.activateProfile()),
+		vscode.commands.registerCommand('conditional-coloring.deactivateProfile', () => controller.deactivateProfile()),
+		vscode.commands.registerCommand('conditional-coloring.renameProfile', () => controller.renameProfile()),
+		vscode.commands.registerCommand('conditional-coloring.duplicateProfile', () => controller.duplicateProfile()),
+		vscode.commands.registerCommand('conditional-coloring.deleteProfile', () => controller.deleteProfile()),
+		vscode.commands.registerCommand('conditional-coloring.manageProfiles', () => controller.manageProfiles()),
+		vscode.commands.registerCommand('conditional-coloring.exportHtmlReport', () => controller.exportHtmlReport()),
+		vscode.commands.registerCommand('conditional-coloring.exportMatchReport', () => controller.exportMatchReport())
 	);
 }
 
@@ -3,7 +3,7 @@ import * as assert from 'assert';
 // You can import and use all API from the 'vscode' module
 // as well as import your extension to test it
 import * as vscode from 'vscode';
-// import * as myExtension from '../../extension';
+import { HighlightController, MatchingLinesFilter } from '../extension';
 
 suite('Extension Test Suite', () => {
 	vscode.window.showInformationMessage('Start all tests.');
@@ -13,3 +13,94 @@ suite('Extension Test Suite', () => {
 		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
 	});
 });
+
+suite('Export Migrations', () => {
+	test('upgrades version 1 files to the current schema', () => {
+		const migrated = HighlightController.migrateExportedRuleFile({
+			version: 1,
+			rules: [{ pattern: 'ERROR', color: '#ff000080' }],
+		});
+		assert.strictEqual(migrated.version, 2);
+		assert.deepStrictEqual(migrated.rules.map((rule) => rule.pattern), ['ERROR']);
+	});
+
+	test('gives version 1 rules the default enabled flag and style', () => {
+		const migrated = HighlightController.migrateExportedRuleFile({
+			version: 1,
+			rules: [
+				{ pattern: 'ERROR', color: '#ff000080' },
+				{ pattern: 'WARN', color: '#ffd40080', enabled: false },
+			],
+		});
+		assert.deepStrictEqual(
+			migrated.rules.map((rule) => [rule.pattern, rule.enabled, rule.style]),
+			[
+				['ERROR', true, 'background'],
+				['WARN', false, 'background'],
+			]
+		);
+	});
+
+	test('rejects unsupported versions', () => {
+		assert.throws(() => HighlightController.migrateExportedRuleFile({ version: 99, rules: [] }), /version 99/);
+		assert.throws(() => HighlightController.migrateExportedRuleFile({ version: 0, rules: [] }), /Unsupported/);
+	});
+});
+
+suite('Word Lists', () => {
+	test('skips blank lines, comments, and repeated words', () => {
+		assert.deepStrictEqual(HighlightController.parseWordList('# terms\nfoo\r\n\n  bar  \nfoo\n'), ['foo', 'bar']);
+	});
+});
+
+suite('Match Reports', () => {
+	test('quotes CSV fields that need it', () => {
+		const csv = HighlightController.formatMatchReportCsv([
+			{ rule: 'Errors', pattern: 'ERROR', file: 'a.log', line: 3, column: 1, match: 'ERROR', lineText: 'ERROR "x", y' },
+		]);
+		assert.strictEqual(
+			csv,
+			'rule,pattern,file,line,column,match,lineText\r\nErrors,ERROR,a.log,3,1,ERROR,"ERROR ""x"", y"\r\n'
+		);
+	});
+});
+
+suite('Replacement Templates', () => {
+	const pattern = /(?<year>\d{4})-(\d{2})/;
+	const input = '2024-05';
+
+	const expand = (template: string) => {
+		const match = pattern.exec(input);
+		assert.ok(match);
+		return HighlightController.expandReplacement(template, match);
+	};
+
+	test('matches String.prototype.replace', () => {
+		for (const template of ['$2/$1', '$<year>', '$$', '$&!', '$10', '$3', '$0', '$<missing>', 'plain']) {
+			assert.strictEqual(expand(template), input.replace(pattern, template), template);
+		}
+	});
+});
+
+suite('Matching Lines Filter', () => {
+	test('folds the lines between matches', () => {
+		const ranges = MatchingLinesFilter.createFoldingRanges(new Set([2, 5]), 8);
+		assert.deepStrictEqual(
+			ranges.map((range) => [range.start, range.end]),
+			[
+				[0, 1],
+				[2, 4],
+				[5, 7],
+			]
+		);
+	});
+});
+
+suite('Theme Colors', () => {
+	test('parses hex colors', () => {
+		assert.deepStrictEqual(HighlightController.parseHexColor('#abc'), { r: 0xaa, g: 0xbb, b: 0xcc, a: 1 });
+		assert.deepStrictEqual(HighlightController.parseHexColor(' #11223380 '), { r: 0x11, g: 0x22, b: 0x33, a: 0x80 / 255 });
+		assert.strictEqual(HighlightController.parseHexColor('red'), undefined);
+		assert.strictEqual(HighlightController.parseHexColor('#12345'), undefined);
+	});
+});